@@ -1,57 +1,238 @@
 #!/usr/bin/env node
-import {McpServer, ResourceTemplate} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {McpServer, ResourceTemplate, ToolCallback} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {completable} from "@modelcontextprotocol/sdk/server/completable.js";
 import {StdioServerTransport} from "@modelcontextprotocol/sdk/server/stdio.js";
+import {StreamableHTTPServerTransport} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {SSEServerTransport} from "@modelcontextprotocol/sdk/server/sse.js";
+import {
+    ErrorCode,
+    isInitializeRequest,
+    McpError,
+    ServerNotification,
+    ServerRequest,
+    SubscribeRequestSchema,
+    ToolAnnotations,
+    UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import {RequestHandlerExtra} from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {z} from "zod";
-import fetch from "node-fetch";
+import YAML from "yaml";
+import fetch, {RequestInit, Response} from "node-fetch";
 import {Buffer} from 'buffer';
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {createHash, randomUUID} from "node:crypto";
+import {AsyncLocalStorage} from "node:async_hooks";
+import {exec} from "node:child_process";
+import {promisify} from "node:util";
+import {createServer as createHttpServer, IncomingMessage, ServerResponse} from "node:http";
+import {pathToFileURL} from "node:url";
+
+const execAsync = promisify(exec);
 
 // Logging
+let logLevel: "silent" | "error" | "info" = "info";
+
 const logError = (message: string) => {
+    if (logLevel === "silent") return;
     console.error(`ERROR: ${message}`);
 };
 
 const logInfo = (message: string) => {
+    if (logLevel !== "info") return;
     console.error(`INFO: ${message}`);
 };
 
-// Parse command line arguments
-function parseArgs() {
+// Configuration options - the key used in the config file, its CLI flag and its environment variable
+const configOptions: {key: string; flag: string; env: string; type: "string" | "number" | "boolean" | "list"}[] = [
+    {key: "apiUrl", flag: "api-url", env: "API_URL", type: "string"},
+    {key: "authToken", flag: "auth-token", env: "PI_API_KEY", type: "string"},
+    {key: "orgId", flag: "org-id", env: "PI_ORG_ID", type: "number"},
+    {key: "transport", flag: "transport", env: "PI_TRANSPORT", type: "string"},
+    {key: "port", flag: "port", env: "PI_PORT", type: "number"},
+    {key: "host", flag: "host", env: "PI_HOST", type: "string"},
+    {key: "allowedHosts", flag: "allowed-hosts", env: "PI_ALLOWED_HOSTS", type: "list"},
+    {key: "sessionIdleTimeout", flag: "session-idle-timeout", env: "PI_SESSION_IDLE_TIMEOUT", type: "number"},
+    {key: "profilesPath", flag: "profiles", env: "PI_PROFILES", type: "string"},
+    {key: "keepAliveInterval", flag: "keep-alive-interval", env: "PI_KEEP_ALIVE_INTERVAL", type: "number"},
+    {key: "tokenRefreshCommand", flag: "token-refresh-command", env: "PI_TOKEN_REFRESH_COMMAND", type: "string"},
+    {key: "requestTimeout", flag: "request-timeout", env: "PI_REQUEST_TIMEOUT", type: "number"},
+    {key: "maxRetries", flag: "max-retries", env: "PI_MAX_RETRIES", type: "number"},
+    {key: "retryBaseDelay", flag: "retry-base-delay", env: "PI_RETRY_BASE_DELAY", type: "number"},
+    {key: "circuitBreakerThreshold", flag: "circuit-breaker-threshold", env: "PI_CIRCUIT_BREAKER_THRESHOLD", type: "number"},
+    {key: "circuitBreakerCooldown", flag: "circuit-breaker-cooldown", env: "PI_CIRCUIT_BREAKER_COOLDOWN", type: "number"},
+    {key: "auditLog", flag: "audit-log", env: "PI_AUDIT_LOG", type: "string"},
+    {key: "exportDir", flag: "export-dir", env: "PI_EXPORT_DIR", type: "string"},
+    {key: "backupDir", flag: "backup-dir", env: "PI_BACKUP_DIR", type: "string"},
+    {key: "subscriptionPollInterval", flag: "subscription-poll-interval", env: "PI_SUBSCRIPTION_POLL_INTERVAL", type: "number"},
+    {key: "schemaSampleSize", flag: "schema-sample-size", env: "PI_SCHEMA_SAMPLE_SIZE", type: "number"},
+    {key: "maxOutputChars", flag: "max-output-chars", env: "PI_MAX_OUTPUT_CHARS", type: "number"},
+    {key: "cacheTtl", flag: "cache-ttl", env: "PI_CACHE_TTL", type: "number"},
+    {key: "cacheMaxEntries", flag: "cache-max-entries", env: "PI_CACHE_MAX_ENTRIES", type: "number"},
+    {key: "logLevel", flag: "log-level", env: "PI_LOG_LEVEL", type: "string"},
+    {key: "readOnly", flag: "read-only", env: "PI_READ_ONLY", type: "boolean"},
+    {key: "allowTools", flag: "allow-tools", env: "PI_ALLOW_TOOLS", type: "list"},
+    {key: "denyTools", flag: "deny-tools", env: "PI_DENY_TOOLS", type: "list"},
+    {key: "record", flag: "record", env: "PI_RECORD", type: "string"},
+    {key: "replay", flag: "replay", env: "PI_REPLAY", type: "string"},
+    {key: "pluginDir", flag: "plugin-dir", env: "PI_PLUGIN_DIR", type: "string"}
+];
+
+const configSchema = z.object({
+    apiUrl: z.string().url().nullable().default(null),
+    authToken: z.string().min(1).nullable().default(null),
+    orgId: z.number().int().nullable().default(null),
+    transport: z.enum(["stdio", "http"]).default("stdio"),
+    port: z.number().int().min(1).max(65535).default(3000),
+    // Interface the HTTP transport listens on - only this machine by default, as sessions share the configured token
+    host: z.string().min(1).default("127.0.0.1"),
+    // Extra Host header names the HTTP transport accepts, besides localhost and host
+    allowedHosts: z.array(z.string().min(1)).default([]),
+    sessionIdleTimeout: z.number().int().min(0).default(1800),
+    profilesPath: z.string().nullable().default(null),
+    keepAliveInterval: z.number().int().min(0).default(300),
+    tokenRefreshCommand: z.string().nullable().default(null),
+    requestTimeout: z.number().int().positive().default(30000),
+    maxRetries: z.number().int().min(0).default(3),
+    retryBaseDelay: z.number().int().min(0).default(500),
+    circuitBreakerThreshold: z.number().int().min(1).default(5),
+    circuitBreakerCooldown: z.number().int().min(0).default(30000),
+    auditLog: z.string().min(1).default(path.join(os.homedir(), ".pi-api-mcp", "audit.jsonl")),
+    exportDir: z.string().min(1).default(path.join(os.homedir(), ".pi-api-mcp", "exports")),
+    backupDir: z.string().min(1).default(path.join(os.homedir(), ".pi-api-mcp", "backups")),
+    subscriptionPollInterval: z.number().int().min(0).default(30),
+    schemaSampleSize: z.number().int().min(1).default(150),
+    maxOutputChars: z.number().int().min(0).default(50000),
+    cacheTtl: z.number().int().min(0).default(60000),
+    cacheMaxEntries: z.number().int().min(1).default(500),
+    logLevel: z.enum(["silent", "error", "info"]).default("info"),
+    readOnly: z.boolean().default(false),
+    // Tool names, "*" matches any characters (e.g. "bulk-*"). Without an allow list every tool is allowed.
+    allowTools: z.array(z.string().min(1)).nullable().default(null),
+    denyTools: z.array(z.string().min(1)).default([]),
+    // Directories of request/response fixtures - record saves every API exchange, replay serves them instead of the network
+    record: z.string().min(1).nullable().default(null),
+    replay: z.string().min(1).nullable().default(null),
+    pluginDir: z.string().min(1).nullable().default(null)
+}).strict().refine(options => !(options.record && options.replay), {
+    message: "record and replay cannot be used together",
+    path: ["replay"]
+});
+
+type ServerConfig = z.infer<typeof configSchema>;
+
+// Parse command line arguments - a flag without a value is treated as a boolean switch
+function parseArgs(): Record<string, string | boolean> {
     const args = process.argv.slice(2);
-    const apiUrlIndex = args.indexOf('--api-url');
-    const authTokenIndex = args.indexOf('--auth-token');
+    const result: Record<string, string | boolean> = {};
+
+    for (let i = 0; i < args.length; i++) {
+        if (!args[i].startsWith("--")) continue;
+
+        const name = args[i].substring(2);
+        const next = args[i + 1];
+        if (next === undefined || next.startsWith("--")) {
+            result[name] = true;
+        } else {
+            result[name] = next;
+            i++;
+        }
+    }
 
-    const result = {
-        apiUrl: null,
-        authToken: null
-    } as any;
+    return result;
+}
 
-    if (apiUrlIndex !== -1 && apiUrlIndex + 1 < args.length) {
-        result.apiUrl = args[apiUrlIndex + 1];
+// Convert an env var or CLI value to the option's type; invalid values are left for zod to report
+function convertOptionValue(type: "string" | "number" | "boolean" | "list", value: string | boolean): unknown {
+    if (typeof value === "boolean") {
+        return value;
     }
 
-    if (authTokenIndex !== -1 && authTokenIndex + 1 < args.length) {
-        result.authToken = args[authTokenIndex + 1];
+    // Lists are comma-separated
+    if (type === "list") {
+        return value.split(",").map(item => item.trim()).filter(item => item);
     }
 
-    return result;
+    if (type === "number") {
+        return value.trim() === "" ? NaN : Number(value);
+    }
+
+    if (type === "boolean") {
+        if (["true", "1", "yes"].includes(value.toLowerCase())) return true;
+        if (["false", "0", "no"].includes(value.toLowerCase())) return false;
+    }
+
+    return value;
 }
 
-// Extract command line arguments
-const cmdArgs = parseArgs();
-let API_BASE_URL = cmdArgs.apiUrl;
-logInfo(`Command line API URL: ${API_BASE_URL || 'not provided'}`);
+// Read a JSON or YAML config file
+function readConfigFile(filePath: string): Record<string, unknown> {
+    const text = fs.readFileSync(filePath, "utf-8");
+    const data = /\.ya?ml$/i.test(filePath) ? YAML.parse(text) : JSON.parse(text);
 
-// Set auth token if provided via command line
-let authToken: string | null = null;
-if (cmdArgs.authToken) {
-    authToken = cmdArgs.authToken;
-    logInfo("Auth token provided via command line");
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+        throw new Error(`Config file ${filePath} must contain an object`);
+    }
+    return data;
 }
 
-// Global token storage and state management
-let orgId: number | null = null;
-let apiUrlSet: boolean = !!API_BASE_URL;
-let connectionVerified: boolean = false;
+// Load configuration - config file (--config), then environment variables, then CLI flags
+function loadConfig(): ServerConfig {
+    const cliArgs = parseArgs();
+    const raw: Record<string, unknown> = {};
+    const sources: Record<string, string> = {};
+    const errors: string[] = [];
+
+    const configPath = cliArgs.config ?? process.env.PI_CONFIG;
+    if (configPath === true) {
+        errors.push("--config: Expected a file path");
+    } else if (configPath) {
+        try {
+            for (const [key, value] of Object.entries(readConfigFile(configPath))) {
+                raw[key] = value;
+                sources[key] = `config file ${configPath}`;
+            }
+        } catch (error) {
+            errors.push(`--config: ${getErrorMessage(error)}`);
+        }
+    }
+
+    for (const option of configOptions) {
+        const value = process.env[option.env];
+        if (value !== undefined && value !== "") {
+            raw[option.key] = convertOptionValue(option.type, value);
+            sources[option.key] = `environment variable ${option.env}`;
+        }
+    }
+
+    for (const [name, value] of Object.entries(cliArgs)) {
+        if (name === "config") continue;
+
+        const option = configOptions.find(candidate => candidate.flag === name);
+        if (!option) {
+            errors.push(`--${name}: Unknown option`);
+            continue;
+        }
+        raw[option.key] = convertOptionValue(option.type, value);
+        sources[option.key] = `CLI flag --${name}`;
+    }
+
+    const parsed = configSchema.safeParse(raw);
+    if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+            const key = issue.path.join(".");
+            const source = sources[String(issue.path[0])];
+            errors.push(`${key || "config"}${source ? ` (from ${source})` : ""}: ${issue.message}`);
+        }
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+        throw new Error(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join("\n")}`);
+    }
+
+    return parsed.data;
+}
 
 // Helper to safely extract error messages
 const getErrorMessage = (error: unknown): string => {
@@ -59,1418 +240,5424 @@ const getErrorMessage = (error: unknown): string => {
     return String(error);
 };
 
-// Create an MCP server
-const server = new McpServer({
-    name: "PI API Server",
-    version: "1.0.0"
-});
+// A named connection to one PI environment (e.g. dev, staging, production)
+interface ConnectionProfile {
+    apiBaseUrl: string;
+    authToken: string | null;
+    orgId: number | null;
+    connectionVerified: boolean;
+}
 
-// Helper function for making authenticated API requests
-async function authenticatedRequest(
-    endpoint: string,
-    method: string = "GET",
-    body: any = null,
-    queryParams: Record<string, string> = {}
-) {
-    if (!apiUrlSet) {
-        throw new Error("API URL not set. Please set the API URL using the set-api-url tool.");
-    }
+// Connection state - one instance per MCP session so sessions never share credentials
+interface ConnectionState {
+    apiBaseUrl: string | null;
+    authToken: string | null;
+    orgId: number | null;
+    apiUrlSet: boolean;
+    connectionVerified: boolean;
+    profiles: Record<string, ConnectionProfile>;
+    activeProfile: string | null;
+    // Only set when the user opts in to keeping credentials in memory for re-authentication
+    credentials: {username: string; password: string} | null;
+    keepAliveTimer: NodeJS.Timeout | null;
+    lastKeepAlive: {at: Date; ok: boolean} | null;
+    reauthentication: Promise<boolean> | null;
+    // Set on connections that must not re-acquire a rejected token (e.g. promotion targets), with the error to report instead
+    reauthenticationError: string | null;
+    authEvents: string[];
+    // Entity schemas inferred per API URL and entity type
+    entitySchemas: Record<string, EntitySchema>;
+    responseCache: ResponseCache;
+    // Subscribed resource URIs with the fingerprint of their last seen content
+    subscriptions: Map<string, ResourceSubscription>;
+    subscriptionTimer: NodeJS.Timeout | null;
+    subscriptionPoll: Promise<void> | null;
+}
 
-    if (!authToken) {
-        throw new Error("Not authenticated. Please authenticate first.");
+function createConnectionState(apiUrl: string | null, token: string | null): ConnectionState {
+    return {
+        apiBaseUrl: apiUrl,
+        authToken: token,
+        orgId: null,
+        apiUrlSet: !!apiUrl,
+        connectionVerified: false,
+        profiles: {},
+        activeProfile: null,
+        credentials: null,
+        keepAliveTimer: null,
+        lastKeepAlive: null,
+        reauthentication: null,
+        reauthenticationError: null,
+        authEvents: [],
+        entitySchemas: {},
+        responseCache: createResponseCache(),
+        subscriptions: new Map(),
+        subscriptionTimer: null,
+        subscriptionPoll: null
+    };
+}
+
+// Copy a state so that a new session can change it (including its profiles) independently
+function cloneConnectionState(state: ConnectionState): ConnectionState {
+    const profiles: Record<string, ConnectionProfile> = {};
+    for (const [name, profile] of Object.entries(state.profiles)) {
+        profiles[name] = {...profile};
     }
+    return {
+        ...state,
+        profiles,
+        keepAliveTimer: null,
+        reauthentication: null,
+        authEvents: [...state.authEvents],
+        entitySchemas: {...state.entitySchemas},
+        responseCache: createResponseCache(),
+        subscriptions: new Map(),
+        subscriptionTimer: null,
+        subscriptionPoll: null
+    };
+}
 
-    // Build URL with query parameters
-    let url = `${API_BASE_URL}${endpoint}`;
+// Write the current connection back into the active profile, so switching away keeps its token
+function saveActiveProfile(state: ConnectionState) {
+    if (state.activeProfile === null || !state.apiBaseUrl) return;
 
-    // Add orgId if available
-    if (orgId !== null) {
-        queryParams.orgId = orgId.toString();
-    }
+    state.profiles[state.activeProfile] = {
+        apiBaseUrl: state.apiBaseUrl,
+        authToken: state.authToken,
+        orgId: state.orgId,
+        connectionVerified: state.connectionVerified
+    };
+}
 
-    // Add query parameters if any
-    if (Object.keys(queryParams).length > 0) {
-        const queryString = Object.entries(queryParams)
-            .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
-            .join("&");
-        url = `${url}?${queryString}`;
-    }
+// Make a stored profile the current connection
+function activateProfile(state: ConnectionState, name: string) {
+    const profile = state.profiles[name];
+    state.apiBaseUrl = profile.apiBaseUrl;
+    state.authToken = profile.authToken;
+    state.orgId = profile.orgId;
+    state.apiUrlSet = true;
+    state.connectionVerified = profile.connectionVerified;
+    state.activeProfile = name;
+    // Stored credentials belong to the previous environment
+    state.credentials = null;
+}
 
-    logInfo(`Making ${method} request to ${url}`);
+// Profiles config file format
+const profilesFileSchema = z.object({
+    defaultProfile: z.string().optional(),
+    profiles: z.record(z.object({
+        apiUrl: z.string().url(),
+        authToken: z.string().optional(),
+        orgId: z.number().int().optional()
+    }))
+});
 
-    const headers: Record<string, string> = {
-        "Authorization": `bearer ${authToken}`,
-        "Content-Type": "application/json"
-    };
+const DEFAULT_PROFILES_PATH = path.join(os.homedir(), ".pi-api-mcp", "profiles.json");
 
-    const options: any = {
-        method,
-        headers
-    };
+// Load profiles from the config file into a state; a missing default file is not an error
+function loadProfiles(state: ConnectionState, profilesPath: string | null) {
+    const filePath = profilesPath || DEFAULT_PROFILES_PATH;
 
-    if (body !== null && ["POST", "PUT"].includes(method)) {
-        options.body = JSON.stringify(body);
-        logInfo(`Request body: ${JSON.stringify(body)}`);
+    if (!fs.existsSync(filePath)) {
+        if (profilesPath) {
+            logError(`Profiles file not found: ${filePath}`);
+        }
+        return;
     }
 
     try {
-        const response = await fetch(url, options);
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            logError(`API request failed with status ${response.status}: ${errorText}`);
-            throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-        }
-
-        // Check if the response is JSON or binary
-        const contentType = response.headers.get("content-type") || "";
-
-        if (contentType.includes("application/json")) {
-            const jsonData = await response.json();
-            logInfo(`Received JSON response: ${JSON.stringify(jsonData).substring(0, 200)}...`);
-            return jsonData;
-        } else if (contentType.includes("text/csv")) {
-            // For binary/file responses, return a base64 encoded string
-            const buffer = await response.arrayBuffer();
-            const base64 = Buffer.from(buffer).toString("base64");
-            logInfo(`Received binary response of type ${contentType}, length: ${base64.length}`);
-            return {
-                contentType,
-                data: base64
+        const parsed = profilesFileSchema.safeParse(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+            logError(`Invalid profiles file ${filePath}:\n${issues.join("\n")}`);
+            return;
+        }
+
+        for (const [name, profile] of Object.entries(parsed.data.profiles)) {
+            state.profiles[name] = {
+                apiBaseUrl: profile.apiUrl,
+                authToken: profile.authToken ?? null,
+                orgId: profile.orgId ?? null,
+                connectionVerified: false
             };
-        } else {
-            // Otherwise, return as text
-            const text = await response.text();
-            logInfo(`Received text response: ${text.substring(0, 200)}...`);
-            return text;
+        }
+        logInfo(`Loaded ${Object.keys(parsed.data.profiles).length} profile(s) from ${filePath}`);
+
+        const defaultProfile = parsed.data.defaultProfile;
+        if (defaultProfile) {
+            if (!state.profiles[defaultProfile]) {
+                logError(`Default profile '${defaultProfile}' is not defined in ${filePath}`);
+            } else if (state.apiUrlSet) {
+                logInfo(`API URL provided via configuration, not activating default profile '${defaultProfile}'`);
+            } else {
+                activateProfile(state, defaultProfile);
+                logInfo(`Activated default profile '${defaultProfile}'`);
+            }
         }
     } catch (error) {
-        logError(`API request error: ${getErrorMessage(error)}`);
-        throw error;
+        logError(`Error loading profiles file ${filePath}: ${getErrorMessage(error)}`);
     }
 }
 
-// Helper function to process filter strings into query parameters
-function parseFilters(filterString: string | null): Record<string, string> {
-    const queryParams: Record<string, string> = {};
+// Load configuration, failing fast with all validation errors
+let config: ServerConfig;
+try {
+    config = loadConfig();
+} catch (error) {
+    logError(getErrorMessage(error));
+    process.exit(1);
+}
+logLevel = config.logLevel;
+logInfo(`Configured API URL: ${config.apiUrl || 'not provided'}`);
 
-    if (!filterString) return queryParams;
+if (config.authToken) {
+    logInfo("Auth token provided via configuration");
+}
 
-    // Split by & to handle multiple filters
-    const filters = filterString.split('&');
+if (config.record) {
+    logInfo(`Record mode enabled - API requests and responses are saved to ${config.record}`);
+}
 
-    for (const filter of filters) {
-        // Match the pattern fieldName(operator)=value
-        const match = filter.match(/([a-zA-Z]+)\(([a-zA-Z]+)\)=(.+)/);
-        if (match) {
-            const [_, field, operator, value] = match;
-            queryParams[`${field}(${operator})`] = value;
-        }
+if (config.replay) {
+    logInfo(`Replay mode enabled - API responses are served from ${config.replay} without network access`);
+}
+
+if (config.readOnly) {
+    logInfo("Read-only mode enabled - tools that change data are not registered and mutating requests are rejected");
+}
+
+// Initial state built from the configuration and profiles file; HTTP sessions start from a copy of it
+const initialState = createConnectionState(config.apiUrl, config.authToken);
+initialState.orgId = config.orgId;
+loadProfiles(initialState, config.profilesPath);
+
+// Circuit breaker per API base URL, shared by every session talking to the same PI server
+interface CircuitBreaker {
+    consecutiveFailures: number;
+    openUntil: number;
+    lastError: string | null;
+}
+
+const circuitBreakers: Record<string, CircuitBreaker> = {};
+
+function getCircuitBreaker(apiBaseUrl: string): CircuitBreaker {
+    if (!circuitBreakers[apiBaseUrl]) {
+        circuitBreakers[apiBaseUrl] = {consecutiveFailures: 0, openUntil: 0, lastError: null};
     }
+    return circuitBreakers[apiBaseUrl];
+}
 
-    return queryParams;
+// Fail fast while the breaker is open; once the cooldown has passed the next request is let through as a trial
+function checkCircuitBreaker(apiBaseUrl: string, breaker: CircuitBreaker) {
+    const remaining = breaker.openUntil - Date.now();
+    if (remaining > 0) {
+        throw new Error(`The PI API at ${apiBaseUrl} appears to be down (${breaker.consecutiveFailures} consecutive failures, last: ${breaker.lastError}). ` +
+            `Requests are paused for another ${Math.ceil(remaining / 1000)}s.`);
+    }
 }
 
-// Helper function to verify connection status
-async function verifyConnection(): Promise<boolean> {
-    if (!apiUrlSet || !API_BASE_URL) {
-        return false;
+function recordCircuitFailure(breaker: CircuitBreaker, message: string) {
+    breaker.consecutiveFailures++;
+    breaker.lastError = message;
+    if (breaker.consecutiveFailures >= config.circuitBreakerThreshold) {
+        breaker.openUntil = Date.now() + config.circuitBreakerCooldown;
+        logError(`Circuit breaker opened after ${breaker.consecutiveFailures} consecutive failures, pausing requests for ${config.circuitBreakerCooldown}ms`);
     }
+}
 
-    if (!authToken) {
-        return false;
+function recordCircuitSuccess(breaker: CircuitBreaker) {
+    if (breaker.openUntil > 0) {
+        logInfo("Circuit breaker closed - the PI API is responding again");
     }
+    breaker.consecutiveFailures = 0;
+    breaker.openUntil = 0;
+    breaker.lastError = null;
+}
 
-    try {
-        // Try a lightweight request to verify the connection
-        await authenticatedRequest("/tokens/keepAlive", "POST");
-        connectionVerified = true;
-        return true;
-    } catch (error) {
-        logError(`Connection verification failed: ${getErrorMessage(error)}`);
-        connectionVerified = false;
-        return false;
+const MAX_RETRY_DELAY = 30000;
+
+// Exponential backoff with full jitter, unless the server says how long to wait via Retry-After
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        if (!Number.isNaN(delay)) {
+            return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY);
+        }
     }
+
+    const ceiling = Math.min(config.retryBaseDelay * 2 ** attempt, MAX_RETRY_DELAY);
+    return Math.round(Math.random() * ceiling);
 }
 
-//
-// SCHEMA DISCOVERY TOOL
-//
-server.tool(
-    "get-filterable-attributes",
-    "Get the list of attributes that can be used for filtering by examining a sample entity",
-    {
-        entityType: z.enum(["chart", "category"]).describe("Type of entity to examine (chart or category)")
-    },
-    async ({entityType}) => {
-        try {
-            if (!apiUrlSet || !authToken) {
-                return {
-                    isError: true,
-                    content: [{
-                        type: "text",
-                        text: "Please set API URL and authenticate before using this tool."
-                    }]
-                };
-            }
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-            let endpoint = "";
+// Response cache for GET requests, keyed by URL, orgId and a fingerprint of the token, so a response is only served to
+// the caller that fetched it. Map order doubles as LRU order.
+interface CacheEntry {
+    endpoint: string;
+    expiresAt: number;
+    value: any;
+}
 
-            // Get a sample entity
-            if (entityType === "chart") {
-                endpoint = "/charts";
-            } else if (entityType === "category") {
-                endpoint = "/categories";
-            }
+interface ResponseCache {
+    entries: Map<string, CacheEntry>;
+    hits: number;
+    misses: number;
+    evictions: number;
+    invalidations: number;
+}
 
-            // Get all entities (since pagination may not be supported)
-            const listResponse = await authenticatedRequest(endpoint, "GET");
+function createResponseCache(): ResponseCache {
+    return {entries: new Map(), hits: 0, misses: 0, evictions: 0, invalidations: 0};
+}
 
-            if (listResponse &&
-                typeof listResponse === 'object' &&
-                'content' in listResponse &&
-                Array.isArray(listResponse.content) &&
-                listResponse.content.length > 0) {
+function getCachedResponse(cache: ResponseCache, key: string): any {
+    const entry = cache.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+        if (entry) cache.entries.delete(key);
+        cache.misses++;
+        return undefined;
+    }
 
-                // Just use the first entity as our sample
-                const sampleEntity = listResponse.content[0];
+    cache.entries.delete(key);
+    cache.entries.set(key, entry);
+    cache.hits++;
+    return structuredClone(entry.value);
+}
 
-                // Extract the attributes from the sample entity
-                const attributes = Object.keys(sampleEntity).map(key => {
-                    const value = sampleEntity[key];
-                    const type = typeof value;
+function storeCachedResponse(cache: ResponseCache, key: string, endpoint: string, value: any) {
+    if (config.cacheTtl <= 0) return;
 
-                    // Determine which operators are suitable based on the value type
-                    let availableOperators: any[] = [];
-                    if (type === "string") {
-                        // Prioritize 'like' for string fields since it's case-insensitive
-                        availableOperators = ["like", "nlike", "eq", "ne"];
-                    } else if (type === "number") {
-                        availableOperators = ["eq", "ne", "gt", "lt", "ge", "le"];
-                    } else if (type === "boolean") {
-                        availableOperators = ["eq", "ne"];
-                    }
+    cache.entries.delete(key);
+    cache.entries.set(key, {endpoint, expiresAt: Date.now() + config.cacheTtl, value: structuredClone(value)});
 
-                    return {
-                        name: key,
-                        type: type,
-                        example: value !== null && value !== undefined ? String(value).substring(0, 30) : "null", // Show a sample value (truncated)
-                        operators: availableOperators
-                    };
-                });
+    while (cache.entries.size > config.cacheMaxEntries) {
+        const oldestKey = cache.entries.keys().next().value as string;
+        cache.entries.delete(oldestKey);
+        cache.evictions++;
+    }
+}
 
-                // Find a string field for the example if possible
-                const stringField = attributes.find(attr => attr.type === "string" && attr.example && attr.example !== "null");
-                let exampleFilter = "";
+// Collections whose cached entries also go stale when another collection changes
+// (e.g. deleting a category changes the charts that referenced it)
+const CACHE_DEPENDENCIES: Record<string, string[]> = {
+    "/categories": ["/charts"]
+};
 
-                if (stringField) {
-                    exampleFilter = `${stringField.name}(like)=${stringField.example}`;
-                } else if (attributes.length > 0) {
-                    const firstAttr = attributes[0];
-                    exampleFilter = `${firstAttr.name}(${firstAttr.operators[0]})=${firstAttr.example}`;
-                }
+// Drop every cached entry of the collection a mutation touched, plus dependent collections
+function invalidateCache(cache: ResponseCache, endpoint: string) {
+    const collection = `/${endpoint.split("/")[1] || ""}`;
+    const affected = [collection, ...(CACHE_DEPENDENCIES[collection] || [])];
 
-                let exampleMultipleFilter = "";
-                if (attributes.length > 1) {
-                    const secondAttr = attributes[1];
-                    exampleMultipleFilter = `${exampleFilter}&${secondAttr.name}(${secondAttr.operators[0]})=${secondAttr.example}`;
-                }
+    for (const [key, entry] of cache.entries) {
+        if (affected.some(path => entry.endpoint === path || entry.endpoint.startsWith(`${path}/`))) {
+            cache.entries.delete(key);
+            cache.invalidations++;
+        }
+    }
+}
 
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Filterable attributes for ${entityType}:\n${JSON.stringify(attributes, null, 2)}\n\n` +
-                            `Example filter usage: '${exampleFilter}'\n\n` +
-                            `Example with multiple filters: '${exampleMultipleFilter || "Not enough attributes for multiple filter example"}'\n\n` +
-                            `Note: For text fields, the 'like' operator is recommended as it performs case-insensitive substring matching.`
-                    }]
-                };
-            } else {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `No ${entityType} entities found to analyze. Please ensure there is at least one ${entityType} in the system.`
-                    }]
-                };
-            }
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error fetching ${entityType} attributes: ${getErrorMessage(error)}`}]
-            };
+// Drop the cached responses of exactly one endpoint (all its pages), e.g. before polling it for changes
+function evictCachedEndpoint(cache: ResponseCache, endpoint: string) {
+    for (const [key, entry] of cache.entries) {
+        if (entry.endpoint === endpoint) {
+            cache.entries.delete(key);
+            cache.invalidations++;
         }
     }
-);
+}
+
+function clearCache(cache: ResponseCache) {
+    cache.invalidations += cache.entries.size;
+    cache.entries.clear();
+}
+
+// Non-JSON response body - decoded text for textual types, base64 data for everything else
+interface ApiContent {
+    contentType: string;
+    text?: string;
+    data?: string;
+}
+
+function isApiContent(result: any): result is ApiContent {
+    return !!result && typeof result === 'object' && typeof result.contentType === 'string'
+        && (typeof result.text === 'string' || typeof result.data === 'string');
+}
+
+function isJsonMimeType(mimeType: string): boolean {
+    return mimeType === "application/json" || mimeType.endsWith("+json");
+}
+
+// Images (including SVG) are kept as bytes so they can be handed to the client as image content
+function isTextMimeType(mimeType: string): boolean {
+    if (mimeType.startsWith("image/")) {
+        return false;
+    }
+
+    return mimeType === "" || mimeType.startsWith("text/") || mimeType.endsWith("+xml")
+        || ["application/xml", "application/csv", "application/javascript", "application/x-ndjson"].includes(mimeType);
+}
+
+// Helper to decode a text body with the charset declared in its content type, falling back to UTF-8
+function decodeText(buffer: ArrayBuffer, contentType: string): string {
+    const charset = /charset="?([^";]+)"?/i.exec(contentType)?.[1]?.trim() || "utf-8";
+
+    try {
+        return new TextDecoder(charset).decode(buffer);
+    } catch (error) {
+        logInfo(`Unsupported charset '${charset}' in response, decoding as UTF-8`);
+        return new TextDecoder("utf-8").decode(buffer);
+    }
+}
 
 //
-// CONNECTION STATUS TOOL
+// RECORD AND REPLAY
 //
-server.tool(
-    "check-connection",
-    "Check if the current API URL and authentication are valid",
-    {},
-    async () => {
-        try {
-            if (!apiUrlSet || !API_BASE_URL) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: "API URL not set. Please set the API URL using the set-api-url tool."
-                    }]
-                };
-            }
 
-            if (!authToken) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: "Not authenticated. Please authenticate using the authenticate tool."
-                    }]
-                };
-            }
+// A recorded API exchange. Endpoints are relative to the API URL so that fixtures replay against any host.
+interface Fixture {
+    request: {method: string; endpoint: string; body: any; sequence: number};
+    response: {status: number; statusText: string; headers: Record<string, string>; json?: any; text?: string; base64?: string};
+}
 
-            // Verify the connection
-            const isConnected = await verifyConnection();
+// Response headers worth keeping in a fixture
+const FIXTURE_HEADERS = ["content-type", "retry-after"];
 
-            if (isConnected) {
-                return {
-                    content: [{
-                        type: "text",
-                        text: `✅ Connection successful! The API URL and token are valid. You're ready to use the PI API.`
-                    }]
-                };
-            } else {
-                return {
-                    isError: true,
-                    content: [{
-                        type: "text",
-                        text: `❌ Connection failed. The token might be invalid or expired. Please try to authenticate again.`
-                    }]
-                };
-            }
+// How often each request has been made in this process. Repeated requests, e.g. a list before and after a delete,
+// are recorded and replayed as separate fixtures in the same order.
+const fixtureSequences = new Map<string, number>();
+
+// Helper to count a request and return its sequence number, starting at 1
+function nextFixtureSequence(method: string, endpoint: string, body: string): number {
+    const key = `${method} ${endpoint} ${body}`;
+    const sequence = (fixtureSequences.get(key) ?? 0) + 1;
+    fixtureSequences.set(key, sequence);
+    return sequence;
+}
+
+// Helper to name the fixture of a request - readable prefix, a hash of the method, endpoint and body, and the sequence number
+function fixturePath(directory: string, method: string, endpoint: string, body: string, sequence: number): string {
+    const slug = endpoint.split("?")[0].replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").slice(0, 80) || "root";
+    const hash = createHash("sha256").update(`${method} ${endpoint} ${body}`).digest("hex").slice(0, 12);
+    return path.join(directory, `${method.toLowerCase()}-${slug}-${hash}-${sequence}.json`);
+}
+
+// Helper to save an API exchange as a fixture, with tokens, passwords and other secrets redacted.
+// A failing recording is reported but never fails the request itself.
+async function recordFixture(directory: string, method: string, endpoint: string, body: string, sequence: number, response: Response, buffer: Buffer) {
+    const contentType = response.headers.get("content-type") || "";
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+    const headers = Object.fromEntries(FIXTURE_HEADERS
+        .filter(header => response.headers.has(header))
+        .map(header => [header, response.headers.get(header) as string]));
+
+    let content: Pick<Fixture["response"], "json" | "text" | "base64">;
+    if (isJsonMimeType(mimeType)) {
+        try {
+            content = {json: redactSecrets(JSON.parse(buffer.toString("utf-8")))};
         } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Connection check failed: ${getErrorMessage(error)}`}]
-            };
+            content = {text: buffer.toString("utf-8")};
         }
+    } else if (isTextMimeType(mimeType)) {
+        content = {text: buffer.toString("utf-8")};
+    } else {
+        content = {base64: buffer.toString("base64")};
     }
-);
 
-//
-// API URL CONFIGURATION TOOL
-//
+    let requestBody: any = body || null;
+    try {
+        requestBody = body ? redactSecrets(JSON.parse(body)) : null;
+    } catch (error) {
+        // Not JSON - kept as sent
+    }
 
-// Set API URL tool
-server.tool(
-    "set-api-url",
-    "Set the API base URL for all requests",
-    {
-        url: z.string().describe("API base URL (e.g., http://localhost:8224/pi/api/v2)")
-    },
-    async ({url}) => {
-        try {
-            // Validate URL format
-            try {
-                new URL(url);
-            } catch (e) {
-                return {
-                    isError: true,
-                    content: [{
-                        type: "text",
-                        text: `Invalid URL format. Please provide a valid URL including protocol (http:// or https://).`
-                    }]
-                };
-            }
+    const fixture: Fixture = {
+        request: {method, endpoint, body: requestBody, sequence},
+        response: {status: response.status, statusText: response.statusText, headers, ...content}
+    };
 
-            API_BASE_URL = url;
-            apiUrlSet = true;
-            connectionVerified = false;
+    try {
+        await fs.promises.mkdir(directory, {recursive: true});
+        await fs.promises.writeFile(fixturePath(directory, method, endpoint, body, sequence), JSON.stringify(fixture, null, 2));
+    } catch (error) {
+        logError(`Could not record ${method} ${endpoint} in ${directory}: ${getErrorMessage(error)}`);
+    }
+}
 
-            return {
-                content: [{
-                    type: "text",
-                    text: `API URL set to: ${url}\n\nNext step: Please authenticate to start using the API.`
-                }]
-            };
+// Helper to serve a request from its fixture. A request made more often than during recording gets the last
+// recorded response, and unknown requests get a 404 that names the missing fixture.
+async function replayFixture(directory: string, method: string, endpoint: string, body: string, sequence: number): Promise<Response> {
+    let fixture: Fixture | null = null;
+    for (let candidate = sequence; candidate >= 1 && !fixture; candidate--) {
+        try {
+            fixture = JSON.parse(await fs.promises.readFile(fixturePath(directory, method, endpoint, body, candidate), "utf-8"));
         } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error setting API URL: ${getErrorMessage(error)}`}]
-            };
+            // Not recorded this often - try the previous response
         }
     }
-);
+
+    if (!fixture) {
+        logError(`No recorded response for ${method} ${endpoint} in ${directory}`);
+        return new Response(JSON.stringify({error: "not recorded"}), {
+            status: 404,
+            statusText: `No recorded response for ${method} ${endpoint}`,
+            headers: {"content-type": "application/json"}
+        });
+    }
+
+    const {status, statusText, headers, json, text, base64} = fixture.response;
+    const content = json !== undefined ? JSON.stringify(json) : base64 !== undefined ? Buffer.from(base64, "base64") : text ?? "";
+    logInfo(`Replaying ${method} ${endpoint} from ${directory}`);
+    return new Response(content, {status, statusText, headers});
+}
+
+// Helper to fetch from the PI API - in record mode the exchange is saved, in replay mode it is served from the saved fixtures
+async function fetchApi(state: ConnectionState, url: string, options: RequestInit): Promise<Response> {
+    const method = options.method || "GET";
+    const body = typeof options.body === "string" ? options.body : "";
+    const endpoint = state.apiBaseUrl && url.startsWith(state.apiBaseUrl) ? url.slice(state.apiBaseUrl.length) : url;
+
+    if (config.replay) {
+        return replayFixture(config.replay, method, endpoint, body, nextFixtureSequence(method, endpoint, body));
+    }
+
+    const response = await fetch(url, options);
+    if (!config.record) {
+        return response;
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    await recordFixture(config.record, method, endpoint, body, nextFixtureSequence(method, endpoint, body), response, buffer);
+    return new Response(buffer, {status: response.status, statusText: response.statusText, headers: response.headers});
+}
 
 //
-// AUTHENTICATION TOOLS
+// AUDIT LOG
 //
 
-// Authentication guide tool
-server.tool(
-    "authenticate",
-    "Guide for authenticating with the PI API",
-    {},
-    async () => {
-        try {
-            // Check if already authenticated successfully
-            if (authToken && await verifyConnection()) {
-                return {
-                    content: [{
+interface AuditEntry {
+    timestamp: string;
+    tool: string | null;
+    arguments: any;
+    method: string;
+    endpoint: string;
+    target: {entityType: string; id: number | null};
+    orgId: number | null;
+    apiUrl: string | null;
+    status: number | null;
+    outcome: "success" | "failure";
+    error?: string;
+    resultId?: number;
+    // The entity as it was before an update or delete
+    before: any;
+}
+
+// The tool call that is currently being served, so that its API requests can be attributed to it
+const auditContext = new AsyncLocalStorage<{tool: string; arguments: any}>();
+
+// Argument and field names whose values never end up in the audit log or in recorded fixtures. The secret word must be
+// the last camelCase or -/_ separated part of the name (accessToken, client_secret, x-api-key), so that fields such as
+// passRate or tokenCount are kept.
+const SECRET_KEY_PATTERN = /(^|[-_]|[a-z0-9](?=[A-Z]))([Tt]oken|[Ss]ecret|[Pp]assword|[Aa]pi[-_]?[Kk]ey|[Cc]redentials?)$|^[Aa]uthorization$/;
+
+// Helper to check a name against SECRET_KEY_PATTERN - all-caps names such as API_KEY are checked in lower case
+function isSecretKey(key: string): boolean {
+    return SECRET_KEY_PATTERN.test(key) || SECRET_KEY_PATTERN.test(key.toLowerCase());
+}
+
+const AUDITED_COLLECTIONS: Record<string, string> = {
+    charts: "chart",
+    categories: "category",
+    categoryObjects: "category object",
+    tokens: "token"
+};
+
+// Helper to wrap a tool callback so that the requests it makes are recorded with the tool name and arguments
+function audited<A extends any[], R>(tool: string, callback: (...args: A) => R): (...args: A) => R {
+    return (...args: A) => auditContext.run({tool, arguments: args[0]}, () => callback(...args));
+}
+
+// Every change to PI is audited, as is ending a session. Other token requests and reads are not.
+function isAuditedRequest(method: string, endpoint: string): boolean {
+    return method !== "GET" && (!endpoint.startsWith("/tokens") || endpoint === "/tokens/invalidate");
+}
+
+// Helper to replace secret values with a marker, at any depth
+function redactSecrets(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(redactSecrets);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+            [key, isSecretKey(key) ? "[REDACTED]" : redactSecrets(item)]));
+    }
+    return value;
+}
+
+// Helper to work out which entity an endpoint addresses, e.g. /categories/3/categoryObjects/7
+function auditTarget(endpoint: string): AuditEntry["target"] {
+    const segments = endpoint.split("?")[0].split("/").filter(segment => segment);
+    const idIndex = segments.length > 1 && /^\d+$/.test(segments[segments.length - 1]) ? segments.length - 1 : -1;
+    const collection = segments.slice(0, idIndex > 0 ? idIndex : segments.length).reverse()
+        .find(segment => segment in AUDITED_COLLECTIONS) ?? segments[0] ?? "";
+
+    return {
+        entityType: AUDITED_COLLECTIONS[collection] || collection,
+        id: idIndex > 0 ? Number(segments[idIndex]) : null
+    };
+}
+
+// Helper to read the entity an update or delete is about to change - null when there is none
+async function snapshotBeforeChange(state: ConnectionState, endpoint: string, method: string): Promise<any> {
+    if (!["PUT", "DELETE"].includes(method) || auditTarget(endpoint).id === null) {
+        return null;
+    }
+
+    try {
+        evictCachedEndpoint(state.responseCache, endpoint);
+        return await sendRequest(state, endpoint, "GET");
+    } catch (error) {
+        logInfo(`Could not read ${endpoint} before changing it: ${getErrorMessage(error)}`);
+        return null;
+    }
+}
+
+// Helper to append an entry to the audit log. A failing audit log is reported but never fails the request itself.
+async function writeAuditEntry(entry: AuditEntry) {
+    try {
+        await fs.promises.mkdir(path.dirname(path.resolve(config.auditLog)), {recursive: true});
+        await fs.promises.appendFile(config.auditLog, JSON.stringify(entry) + "\n");
+    } catch (error) {
+        logError(`Could not write to the audit log ${config.auditLog}: ${getErrorMessage(error)}`);
+    }
+}
+
+// Helper to read the audit log, newest entries first
+async function readAuditEntries(): Promise<AuditEntry[]> {
+    let text = "";
+    try {
+        text = await fs.promises.readFile(config.auditLog, "utf-8");
+    } catch (error) {
+        return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            entries.push(JSON.parse(line));
+        } catch (error) {
+            // A torn last line must not hide the rest of the log
+        }
+    }
+    return entries.reverse();
+}
+
+// Helper function for making authenticated API requests - changes are recorded in the audit log
+async function authenticatedRequest(
+    state: ConnectionState,
+    endpoint: string,
+    method: string = "GET",
+    body: any = null,
+    queryParams: Record<string, string> = {},
+    reauthenticateOnUnauthorized: boolean = true
+): Promise<any> {
+    if (!isAuditedRequest(method, endpoint)) {
+        return sendRequest(state, endpoint, method, body, queryParams, reauthenticateOnUnauthorized);
+    }
+
+    const context = auditContext.getStore();
+    const before = await snapshotBeforeChange(state, endpoint, method);
+    const responseInfo: {status?: number} = {};
+    const entry = (): AuditEntry => ({
+        timestamp: new Date().toISOString(),
+        tool: context?.tool ?? null,
+        arguments: redactSecrets(context?.arguments ?? body),
+        method,
+        endpoint,
+        target: auditTarget(endpoint),
+        orgId: state.orgId,
+        apiUrl: state.apiBaseUrl,
+        status: responseInfo.status ?? null,
+        outcome: "success",
+        before
+    });
+
+    try {
+        const result = await sendRequest(state, endpoint, method, body, queryParams, reauthenticateOnUnauthorized, responseInfo);
+        await writeAuditEntry({
+            ...entry(),
+            ...(result && typeof result === 'object' && typeof result.id === 'number' ? {resultId: result.id} : {})
+        });
+        return result;
+    } catch (error) {
+        await writeAuditEntry({...entry(), outcome: "failure", error: getErrorMessage(error)});
+        throw error;
+    }
+}
+
+// Helper to send a request to the PI API, with caching, retries and re-authentication
+async function sendRequest(
+    state: ConnectionState,
+    endpoint: string,
+    method: string = "GET",
+    body: any = null,
+    queryParams: Record<string, string> = {},
+    reauthenticateOnUnauthorized: boolean = true,
+    // Receives the HTTP status of the final response
+    responseInfo: {status?: number} = {}
+): Promise<any> {
+    if (!state.apiUrlSet) {
+        throw new Error("API URL not set. Please set the API URL using the set-api-url tool.");
+    }
+
+    if (!state.authToken) {
+        throw new Error("Not authenticated. Please authenticate first.");
+    }
+
+    // Token endpoints stay available so that sessions can still be kept alive and closed
+    if (config.readOnly && method !== "GET" && !endpoint.startsWith("/tokens/")) {
+        throw new Error(`Read-only mode is enabled. ${method} ${endpoint} is not allowed.`);
+    }
+
+    // Build URL with query parameters
+    let url = `${state.apiBaseUrl}${endpoint}`;
+
+    // Add orgId if available
+    if (state.orgId !== null) {
+        queryParams.orgId = state.orgId.toString();
+    }
+
+    // Add query parameters if any
+    if (Object.keys(queryParams).length > 0) {
+        const queryString = Object.entries(queryParams)
+            .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+            .join("&");
+        url = `${url}?${queryString}`;
+    }
+
+    const tokenFingerprint = state.authToken ? createHash("sha256").update(state.authToken).digest("hex").slice(0, 16) : "-";
+    const cacheKey = `${tokenFingerprint} ${state.orgId ?? "-"} ${url}`;
+    if (method === "GET" && config.cacheTtl > 0) {
+        const cached = getCachedResponse(state.responseCache, cacheKey);
+        if (cached !== undefined) {
+            logInfo(`Serving ${url} from cache`);
+            return cached;
+        }
+    }
+
+    logInfo(`Making ${method} request to ${url}`);
+
+    const headers: Record<string, string> = {
+        "Authorization": `bearer ${state.authToken}`,
+        "Content-Type": "application/json"
+    };
+
+    const options: any = {
+        method,
+        headers
+    };
+
+    if (body !== null && ["POST", "PUT"].includes(method)) {
+        options.body = JSON.stringify(body);
+        logInfo(`Request body: ${JSON.stringify(body)}`);
+    }
+
+    // Only requests that are safe to repeat are retried
+    const idempotent = method === "GET" || endpoint === "/tokens/keepAlive";
+    const breaker = getCircuitBreaker(state.apiBaseUrl as string);
+
+    for (let attempt = 0; ; attempt++) {
+        checkCircuitBreaker(state.apiBaseUrl as string, breaker);
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), config.requestTimeout);
+
+        try {
+            let response;
+            try {
+                response = await fetchApi(state, url, {...options, signal: controller.signal});
+            } catch (error) {
+                const message = controller.signal.aborted
+                    ? `Request timed out after ${config.requestTimeout}ms`
+                    : `Network error: ${getErrorMessage(error)}`;
+                recordCircuitFailure(breaker, message);
+
+                if (idempotent && attempt < config.maxRetries) {
+                    const delay = getRetryDelay(attempt, null);
+                    logInfo(`${message}. Retrying ${method} ${url} in ${delay}ms (retry ${attempt + 1} of ${config.maxRetries})`);
+                    await sleep(delay);
+                    continue;
+                }
+                throw new Error(message);
+            }
+
+            responseInfo.status = response.status;
+
+            // Expired token - re-acquire it once and replay the request
+            if (response.status === 401 && reauthenticateOnUnauthorized && !state.reauthenticationError) {
+                logInfo(`Request to ${url} was rejected with 401, trying to re-acquire the token`);
+                if (await reacquireToken(state)) {
+                    return sendRequest(state, endpoint, method, body, queryParams, false, responseInfo);
+                }
+            }
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                logError(`API request failed with status ${response.status}: ${errorText}`);
+
+                // Only server errors mean the backend is unhealthy
+                if (response.status >= 500) {
+                    recordCircuitFailure(breaker, `status ${response.status}`);
+                } else {
+                    recordCircuitSuccess(breaker);
+                }
+
+                if (idempotent && attempt < config.maxRetries && (response.status >= 500 || response.status === 429)) {
+                    const delay = getRetryDelay(attempt, response.headers.get("retry-after"));
+                    logInfo(`Retrying ${method} ${url} in ${delay}ms (retry ${attempt + 1} of ${config.maxRetries})`);
+                    await sleep(delay);
+                    continue;
+                }
+
+                if (response.status === 401 && state.reauthenticationError) {
+                    throw new Error(state.reauthenticationError);
+                }
+                throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
+            }
+
+            recordCircuitSuccess(breaker);
+
+            // Handle the body according to its content type
+            const contentType = response.headers.get("content-type") || "";
+            const mimeType = contentType.split(";")[0].trim().toLowerCase();
+            let result: any;
+
+            if (isJsonMimeType(mimeType)) {
+                const jsonData = await response.json();
+                logInfo(`Received JSON response: ${JSON.stringify(jsonData).substring(0, 200)}...`);
+                result = jsonData;
+            } else if (isTextMimeType(mimeType)) {
+                const text = decodeText(await response.arrayBuffer(), contentType);
+                logInfo(`Received text response of type ${mimeType || "unknown"}: ${text.substring(0, 200)}...`);
+                result = {contentType: mimeType, text};
+            } else {
+                // For binary/file responses, return a base64 encoded string
+                const buffer = await response.arrayBuffer();
+                const base64 = Buffer.from(buffer).toString("base64");
+                logInfo(`Received binary response of type ${mimeType}, length: ${base64.length}`);
+                result = {contentType: mimeType, data: base64};
+            }
+
+            if (method === "GET") {
+                storeCachedResponse(state.responseCache, cacheKey, endpoint, result);
+            } else if (!endpoint.startsWith("/tokens")) {
+                invalidateCache(state.responseCache, endpoint);
+            }
+
+            return result;
+        } catch (error) {
+            const message = controller.signal.aborted
+                ? `Request timed out after ${config.requestTimeout}ms`
+                : getErrorMessage(error);
+            logError(`API request error: ${message}`);
+            throw controller.signal.aborted ? new Error(message) : error;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+// Helper to keep a short history of authentication state changes for auth://status
+function recordAuthEvent(state: ConnectionState, message: string) {
+    state.authEvents.push(`${new Date().toISOString()} ${message}`);
+    if (state.authEvents.length > 10) {
+        state.authEvents.shift();
+    }
+    logInfo(message);
+}
+
+// Helper to exchange username and password for a token
+async function requestToken(state: ConnectionState, username: string, password: string): Promise<string> {
+    const credentialsBase64 = Buffer.from(`${username}:${password}`).toString("base64");
+
+    const response = await fetchApi(state, `${state.apiBaseUrl}/tokens`, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `basic ${credentialsBase64}`
+        },
+        signal: AbortSignal.timeout(config.requestTimeout)
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (data && typeof data === 'object' && 'token' in data && typeof data.token === 'string') {
+        return data.token;
+    }
+
+    throw new Error("Invalid response format");
+}
+
+// Helper to get a fresh token from the configured refresh hook (a command that prints a token)
+async function runTokenRefreshCommand(state: ConnectionState, command: string): Promise<string> {
+    const {stdout} = await execAsync(command, {
+        timeout: 30000,
+        env: {...process.env, PI_API_URL: state.apiBaseUrl || ""}
+    });
+
+    const token = stdout.trim();
+    if (!token) {
+        throw new Error("Token refresh command printed no token");
+    }
+    return token;
+}
+
+// Re-acquire a token after a 401 using stored credentials or the refresh hook.
+// Concurrent callers share one attempt.
+async function reacquireToken(state: ConnectionState): Promise<boolean> {
+    if (state.reauthentication) {
+        return state.reauthentication;
+    }
+
+    const attempt = async (): Promise<boolean> => {
+        if (state.credentials) {
+            try {
+                state.authToken = await requestToken(state, state.credentials.username, state.credentials.password);
+                state.connectionVerified = true;
+                recordAuthEvent(state, "Token expired - re-authenticated with stored credentials");
+                return true;
+            } catch (error) {
+                recordAuthEvent(state, `Re-authentication with stored credentials failed: ${getErrorMessage(error)}`);
+            }
+        }
+
+        if (config.tokenRefreshCommand) {
+            try {
+                state.authToken = await runTokenRefreshCommand(state, config.tokenRefreshCommand);
+                state.connectionVerified = true;
+                recordAuthEvent(state, "Token expired - re-acquired token from the refresh command");
+                return true;
+            } catch (error) {
+                recordAuthEvent(state, `Token refresh command failed: ${getErrorMessage(error)}`);
+            }
+        }
+
+        if (!state.credentials && !config.tokenRefreshCommand) {
+            recordAuthEvent(state, "Token rejected (401) and no re-authentication method is available");
+        }
+        state.connectionVerified = false;
+        return false;
+    };
+
+    state.reauthentication = attempt().finally(() => {
+        state.reauthentication = null;
+    });
+    return state.reauthentication;
+}
+
+// Start calling /tokens/keepAlive in the background for a state
+function startKeepAlive(state: ConnectionState) {
+    if (!config.keepAliveInterval || config.keepAliveInterval <= 0 || state.keepAliveTimer) {
+        return;
+    }
+
+    state.keepAliveTimer = setInterval(async () => {
+        if (!state.apiUrlSet || !state.authToken) {
+            return;
+        }
+
+        const wasOk = state.lastKeepAlive?.ok ?? true;
+        try {
+            await authenticatedRequest(state, "/tokens/keepAlive", "POST");
+            state.connectionVerified = true;
+            state.lastKeepAlive = {at: new Date(), ok: true};
+            if (!wasOk) {
+                recordAuthEvent(state, "Background keep-alive recovered");
+            }
+        } catch (error) {
+            state.lastKeepAlive = {at: new Date(), ok: false};
+            if (wasOk) {
+                recordAuthEvent(state, `Background keep-alive failed: ${getErrorMessage(error)}`);
+            }
+        }
+    }, config.keepAliveInterval * 1000);
+
+    // Never keep the process alive just for the keep-alive timer
+    state.keepAliveTimer.unref();
+}
+
+function stopKeepAlive(state: ConnectionState) {
+    if (state.keepAliveTimer) {
+        clearInterval(state.keepAliveTimer);
+        state.keepAliveTimer = null;
+    }
+}
+
+// Filter grammar:
+//   filter := term ("&" term)*
+//   term   := field "(" operator ")" ["=" values]
+//   field  := name ("." name)*             e.g. description, category.id, 2020
+//   values := value ("," value)*           lists are only split for "in" and "between", whose values cannot contain a comma
+//   value  := "quoted" | 'quoted' | raw    a backslash escapes the next character
+const FILTER_OPERATORS = ["eq", "ne", "gt", "lt", "ge", "le", "like", "nlike", "in", "between", "isnull"];
+
+interface FilterTerm {
+    field: string;
+    operator: string;
+    values: string[];
+    raw: string;
+}
+
+// Helper to parse a filter string into terms, throwing an error that names any malformed term
+function parseFilterTerms(filterString: string | null): FilterTerm[] {
+    const terms: FilterTerm[] = [];
+    if (!filterString) return terms;
+
+    const input = filterString;
+    let pos = 0;
+
+    while (pos <= input.length) {
+        const start = pos;
+        const fail = (reason: string): never => {
+            // Report the whole term, up to the next unescaped & outside quotes
+            let end = pos;
+            while (end < input.length && input[end] !== "&") end++;
+            const raw = input.substring(start, end);
+            throw new Error(raw ? `Invalid filter term '${raw}': ${reason}` : `Invalid filter: empty term at position ${start}`);
+        };
+
+        const fieldMatch = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*/.exec(input.substring(pos));
+        if (!fieldMatch) {
+            fail(pos >= input.length || input[pos] === "&" ? "empty term" : "expected a field name");
+        }
+        const field = fieldMatch![0];
+        pos += field.length;
+
+        const operatorMatch = /^\(([A-Za-z]+)\)/.exec(input.substring(pos));
+        if (!operatorMatch) {
+            fail("expected an operator in parentheses, e.g. description(like)=value");
+        }
+        const operator = operatorMatch![1].toLowerCase();
+        pos += operatorMatch![0].length;
+
+        if (!FILTER_OPERATORS.includes(operator)) {
+            fail(`unknown operator '${operatorMatch![1]}'. Available operators: ${FILTER_OPERATORS.join(", ")}`);
+        }
+
+        const values: string[] = [];
+        const isList = operator === "in" || operator === "between";
+
+        if (input[pos] === "=") {
+            pos++;
+            while (true) {
+                let value = "";
+                const quote = input[pos];
+                if (quote === '"' || quote === "'") {
+                    pos++;
+                    while (pos < input.length && input[pos] !== quote) {
+                        if (input[pos] === "\\") pos++;
+                        if (pos < input.length) value += input[pos++];
+                    }
+                    if (pos >= input.length) {
+                        fail("unterminated quoted value");
+                    }
+                    pos++;
+                } else {
+                    while (pos < input.length && input[pos] !== "&" && !(isList && input[pos] === ",")) {
+                        if (input[pos] === "\\") {
+                            pos++;
+                            if (pos >= input.length) fail("dangling escape character");
+                        }
+                        value += input[pos++];
+                    }
+                }
+                values.push(value);
+
+                if (isList && input[pos] === ",") {
+                    pos++;
+                    continue;
+                }
+                break;
+            }
+        } else if (operator !== "isnull") {
+            fail("expected '=' followed by a value");
+        }
+
+        if (pos < input.length && input[pos] !== "&") {
+            fail(`unexpected '${input[pos]}' after the value (quote values that contain special characters)`);
+        }
+
+        if (operator === "isnull") {
+            if (values.length === 0) values.push("true");
+            if (!["true", "false"].includes(values[0].toLowerCase())) fail("isnull takes no value, or true/false");
+        } else if (operator === "between" && values.length !== 2) {
+            fail("between needs exactly two values, e.g. amount(between)=10,20");
+        } else if (values.some(value => value === "")) {
+            fail("missing value");
+        }
+
+        terms.push({field, operator, values, raw: input.substring(start, pos)});
+        pos++;
+    }
+
+    return terms;
+}
+
+// Helper to turn parsed filter terms into query parameters
+function filterTermsToParams(terms: FilterTerm[]): Record<string, string> {
+    const queryParams: Record<string, string> = {};
+
+    for (const term of terms) {
+        const key = `${term.field}(${term.operator})`;
+        if (key in queryParams) {
+            throw new Error(`Invalid filter term '${term.raw}': ${key} is used more than once`);
+        }
+        // PI splits in and between lists on every comma, quoted or not
+        if (["in", "between"].includes(term.operator) && term.values.some(value => value.includes(","))) {
+            throw new Error(`Invalid filter term '${term.raw}': ${term.operator} values cannot contain a comma`);
+        }
+        queryParams[key] = term.values.join(",");
+    }
+
+    return queryParams;
+}
+
+// Helper function to process filter strings into query parameters
+function parseFilters(filterString: string | null): Record<string, string> {
+    return filterTermsToParams(parseFilterTerms(filterString));
+}
+
+type EntityType = "chart" | "category";
+
+interface FilterableAttribute {
+    name: string;
+    type: string;
+    example: string;
+    operators: string[];
+    nullable: boolean;
+    // Distinct values of low-cardinality fields
+    values?: (string | number)[];
+}
+
+interface EntitySchema {
+    entityType: EntityType;
+    sampleSize: number;
+    totalCount: number;
+    inferredAt: string;
+    attributes: FilterableAttribute[];
+}
+
+// Page size used when sampling entities for schema inference
+const SCHEMA_SAMPLE_PAGE_SIZE = 50;
+
+// Fields with at most this many distinct (repeated) values are reported as enums
+const ENUM_MAX_VALUES = 10;
+
+// Nested objects are expanded into dotted paths down to this depth
+const SCHEMA_MAX_DEPTH = 3;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const OPERATORS_BY_TYPE: Record<string, string[]> = {
+    // Prioritize 'like' for string fields since it's case-insensitive
+    string: ["like", "nlike", "eq", "ne", "in", "isnull"],
+    number: ["eq", "ne", "gt", "lt", "ge", "le", "in", "between", "isnull"],
+    date: ["eq", "ne", "gt", "lt", "ge", "le", "between", "isnull"],
+    boolean: ["eq", "ne", "isnull"]
+};
+
+interface FieldStats {
+    types: Set<string>;
+    present: number;
+    nulls: number;
+    example: any;
+    distinct: Map<string, string | number>;
+}
+
+// Helper to collect value statistics for every (nested) path of the sampled entities
+function collectFieldStats(entity: Record<string, any>, stats: Map<string, FieldStats>, prefix: string = "", depth: number = 1) {
+    for (const [key, value] of Object.entries(entity)) {
+        const name = prefix ? `${prefix}.${key}` : key;
+        let field = stats.get(name);
+        if (!field) {
+            field = {types: new Set(), present: 0, nulls: 0, example: undefined, distinct: new Map()};
+            stats.set(name, field);
+        }
+        field.present++;
+
+        if (value === null || value === undefined) {
+            field.nulls++;
+            continue;
+        }
+
+        const type = Array.isArray(value) ? "array"
+            : typeof value === "string" && ISO_DATE_PATTERN.test(value) ? "date"
+            : typeof value;
+        field.types.add(type);
+        if (field.example === undefined) field.example = value;
+
+        if ((type === "string" || type === "number") && field.distinct.size <= ENUM_MAX_VALUES) {
+            field.distinct.set(`${type}:${value}`, value);
+        }
+
+        if (type === "object" && depth < SCHEMA_MAX_DEPTH) {
+            collectFieldStats(value, stats, name, depth + 1);
+        }
+    }
+}
+
+// Helper to infer the schema of an entity type from a sample of entities - null when there is nothing to sample.
+// Results are cached per API URL so filters can be validated without a request each time.
+async function inferEntitySchema(state: ConnectionState, entityType: EntityType, useCache: boolean = true, sampleSize: number = config.schemaSampleSize): Promise<EntitySchema | null> {
+    const cacheKey = `${state.apiBaseUrl}|${entityType}`;
+    if (useCache && state.entitySchemas[cacheKey]) {
+        return state.entitySchemas[cacheKey];
+    }
+
+    const endpoint = entityType === "chart" ? "/charts" : "/categories";
+    const sample = await fetchAllPages(state, endpoint, {}, Math.min(SCHEMA_SAMPLE_PAGE_SIZE, sampleSize), sampleSize);
+    const entities = sample.content.filter(entity => entity && typeof entity === 'object' && !Array.isArray(entity));
+
+    if (entities.length === 0) {
+        return null;
+    }
+
+    const stats = new Map<string, FieldStats>();
+    for (const entity of entities) {
+        collectFieldStats(entity, stats);
+    }
+
+    const attributes = Array.from(stats.entries()).map(([name, field]): FilterableAttribute => {
+        // Dates mixed with other strings are plain strings
+        const types = [...field.types];
+        const type = types.length === 0 ? "unknown"
+            : types.length === 1 ? types[0]
+            : types.every(t => t === "date" || t === "string") ? "string"
+            : "mixed";
+
+        const nonNull = field.present - field.nulls;
+        const isEnum = (type === "string" || type === "number")
+            && field.distinct.size <= ENUM_MAX_VALUES
+            && field.distinct.size < nonNull;
+
+        // Fields missing from some entities are as good as null for filtering
+        const nullable = field.nulls > 0 || field.present < entities.length;
+
+        return {
+            name,
+            type,
+            example: field.example !== undefined
+                ? (typeof field.example === "object" ? JSON.stringify(field.example) : String(field.example)).substring(0, 30) // Show a sample value (truncated)
+                : "null",
+            // Operators are only known for scalar types - objects, arrays and fields seen only as null accept any
+            operators: OPERATORS_BY_TYPE[type] || [],
+            nullable,
+            ...(isEnum ? {values: [...field.distinct.values()].sort((a, b) => a < b ? -1 : a > b ? 1 : 0)} : {})
+        };
+    });
+
+    const schema: EntitySchema = {
+        entityType,
+        sampleSize: entities.length,
+        totalCount: sample.totalCount,
+        inferredAt: new Date().toISOString(),
+        attributes
+    };
+
+    state.entitySchemas[cacheKey] = schema;
+    return schema;
+}
+
+// Helper to get the filterable attributes of an entity type from its inferred schema
+async function getFilterableAttributes(state: ConnectionState, entityType: EntityType, useCache: boolean = true): Promise<FilterableAttribute[] | null> {
+    const schema = await inferEntitySchema(state, entityType, useCache);
+    return schema ? schema.attributes : null;
+}
+
+// Helper to check filter terms against the discovered attributes of an entity type
+function validateFilterTerms(terms: FilterTerm[], attributes: FilterableAttribute[], entityType: EntityType) {
+    for (const term of terms) {
+        const [rootField] = term.field.split(".");
+        const rootAttribute = attributes.find(attr => attr.name === rootField);
+
+        if (!rootAttribute) {
+            throw new Error(`Invalid filter term '${term.raw}': ${entityType} has no attribute '${rootField}'. ` +
+                `Available attributes: ${attributes.filter(attr => !attr.name.includes(".")).map(attr => attr.name).join(", ")}`);
+        }
+
+        if (term.field !== rootField && ["string", "number", "boolean", "date"].includes(rootAttribute.type)) {
+            throw new Error(`Invalid filter term '${term.raw}': '${rootField}' is a ${rootAttribute.type} and has no nested fields`);
+        }
+
+        // Nested paths that did not occur in the sample are passed through unvalidated
+        const attribute = attributes.find(attr => attr.name === term.field);
+        if (!attribute) continue;
+
+        // Attributes whose type could not be determined from the sample accept any operator
+        if (attribute.operators.length > 0 && !attribute.operators.includes(term.operator)) {
+            throw new Error(`Invalid filter term '${term.raw}': operator '${term.operator}' is not supported for ${attribute.type} attribute '${term.field}'. ` +
+                `Supported operators: ${attribute.operators.join(", ")}`);
+        }
+    }
+}
+
+// Helper to turn a filter string into query parameters, validated against the entity's attributes
+async function buildFilterParams(state: ConnectionState, entityType: EntityType, filterString: string): Promise<Record<string, string>> {
+    const terms = parseFilterTerms(filterString);
+
+    let attributes: FilterableAttribute[] | null = null;
+    try {
+        attributes = await getFilterableAttributes(state, entityType);
+    } catch (error) {
+        logError(`Could not discover ${entityType} attributes, filters are not validated: ${getErrorMessage(error)}`);
+    }
+
+    if (attributes) {
+        validateFilterTerms(terms, attributes, entityType);
+    }
+
+    return filterTermsToParams(terms);
+}
+
+// Fields the PI API manages itself, which must not be sent when copying an entity
+const CHART_READ_ONLY_FIELDS = ["id", "createdAt", "createdBy", "updatedAt", "updatedBy"];
+
+// Upper bound for "fetch all" listings, so a huge dashboard cannot exhaust memory
+const DEFAULT_MAX_ITEMS = 5000;
+
+interface FetchAllResult {
+    totalCount: number;
+    pagesFetched: number;
+    truncated: boolean;
+    content: any[];
+}
+
+// Helper to follow the pages of a list endpoint until they are exhausted or maxItems is reached
+async function fetchAllPages(
+    state: ConnectionState,
+    endpoint: string,
+    queryParams: Record<string, string>,
+    pageSize: number,
+    maxItems: number,
+    onProgress?: (fetched: number, total: number | undefined) => Promise<void>
+): Promise<FetchAllResult> {
+    const content: any[] = [];
+    let totalElements: number | undefined;
+    let pagesFetched = 0;
+    let previousFirstItem: string | null = null;
+
+    for (let page = 1; content.length < maxItems; page++) {
+        const response = await authenticatedRequest(state, endpoint, "GET", null, {
+            ...queryParams,
+            page: page.toString(),
+            pageSize: pageSize.toString()
+        });
+        pagesFetched++;
+
+        // Endpoints without pagination return a plain list
+        if (Array.isArray(response)) {
+            content.push(...response);
+            break;
+        }
+
+        const items: any[] = response && typeof response === 'object' && Array.isArray(response.content) ? response.content : [];
+        if (typeof response?.totalElements === "number") {
+            totalElements = response.totalElements;
+        }
+
+        // Stop if the server ignores paging and keeps returning the same page
+        const firstItem = items.length > 0 ? JSON.stringify(items[0]) : null;
+        if (items.length === 0 || firstItem === previousFirstItem) {
+            break;
+        }
+        previousFirstItem = firstItem;
+
+        content.push(...items);
+        if (onProgress) {
+            await onProgress(Math.min(content.length, maxItems), totalElements);
+        }
+
+        const lastPage = typeof response.totalPages === "number" && page >= response.totalPages;
+        if (lastPage || items.length < pageSize || (totalElements !== undefined && content.length >= totalElements)) {
+            break;
+        }
+    }
+
+    const truncated = content.length > maxItems || (totalElements !== undefined && Math.min(content.length, maxItems) < totalElements);
+    return {
+        totalCount: totalElements ?? content.length,
+        pagesFetched,
+        truncated,
+        content: content.slice(0, maxItems)
+    };
+}
+
+// Helper to send MCP progress notifications, if the client asked for them with a progress token
+function progressNotifier(extra: RequestHandlerExtra<ServerRequest, ServerNotification>, message: string) {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+        return undefined;
+    }
+
+    return async (fetched: number, total: number | undefined) => {
+        await extra.sendNotification({
+            method: "notifications/progress",
+            params: {
+                progressToken,
+                progress: fetched,
+                ...(total !== undefined ? {total} : {}),
+                message: `${message}: ${fetched}${total !== undefined ? ` of ${total}` : ""}`
+            }
+        });
+    };
+}
+
+// Result of one item in a bulk operation
+interface BulkItemResult {
+    id: number;
+    description: string | null;
+    status: "would delete" | "would update" | "deleted" | "updated" | "unchanged" | "failed" | "not found";
+    changes?: Record<string, {from: any; to: any}>;
+    error?: string;
+}
+
+// Helper to resolve the entities a bulk operation applies to, from an ID list or a filter
+async function resolveBulkTargets(
+    state: ConnectionState,
+    entityType: EntityType,
+    ids: number[] | undefined,
+    filter: string | undefined
+): Promise<{targets: any[]; unresolved: BulkItemResult[]; truncated: boolean}> {
+    const endpoint = entityType === "chart" ? "/charts" : "/categories";
+
+    if (ids && ids.length > 0) {
+        const targets: any[] = [];
+        // IDs that could not be read - missing ones are "not found", anything else (e.g. a timeout) "failed"
+        const unresolved: BulkItemResult[] = [];
+
+        for (const id of new Set(ids)) {
+            try {
+                targets.push(await authenticatedRequest(state, `${endpoint}/${id}`));
+            } catch (error) {
+                const message = getErrorMessage(error);
+                unresolved.push({id, description: null, status: message.includes("status 404") ? "not found" : "failed", error: message});
+            }
+        }
+        return {targets, unresolved, truncated: false};
+    }
+
+    if (!filter) {
+        throw new Error("Please provide either ids or a filter to select the entities.");
+    }
+
+    const filterParams = await buildFilterParams(state, entityType, filter);
+    const result = await fetchAllPages(state, endpoint, filterParams, 100, DEFAULT_MAX_ITEMS);
+    return {targets: result.content, unresolved: [], truncated: result.truncated};
+}
+
+// Helper to apply an operation to every target, recording per-item success or failure instead of stopping
+async function runBulkOperation(
+    targets: any[],
+    doneStatus: "deleted" | "updated",
+    operation: (target: any) => Promise<void>
+): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+
+    for (const target of targets) {
+        try {
+            await operation(target);
+            results.push({id: target.id, description: target.description ?? null, status: doneStatus});
+        } catch (error) {
+            results.push({id: target.id, description: target.description ?? null, status: "failed", error: getErrorMessage(error)});
+        }
+    }
+
+    return results;
+}
+
+// Helper to format a bulk operation report with per-status counts
+function formatBulkReport(title: string, dryRun: boolean, results: BulkItemResult[], truncated: boolean): string {
+    const counts: Record<string, number> = {};
+    for (const result of results) {
+        counts[result.status] = (counts[result.status] || 0) + 1;
+    }
+
+    const summary = Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(", ") || "nothing matched";
+
+    return `${dryRun ? "DRY RUN - nothing was changed. " : ""}${title}: ${summary}\n` +
+        (truncated ? `Warning: the filter matched more than ${DEFAULT_MAX_ITEMS} items; only the first ${DEFAULT_MAX_ITEMS} were included.\n` : "") +
+        (dryRun && results.length > 0 ? "Run again with dryRun set to false to apply these changes.\n" : "") +
+        `\n${JSON.stringify(results, null, 2)}`;
+}
+
+// A chart export decoded for MCP - text for textual formats, base64 blob for binary ones
+interface ChartExport {
+    mimeType: string;
+    text?: string;
+    blob?: string;
+}
+
+// Fallback content types for exports whose response does not declare one
+const EXPORT_MIME_TYPES: Record<string, string> = {
+    json: "application/json",
+    csv: "text/csv",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    xls: "application/vnd.ms-excel",
+    pdf: "application/pdf",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    svg: "image/svg+xml"
+};
+
+// Helper to turn an export response from authenticatedRequest into MCP resource content
+function toChartExport(result: any, format: string): ChartExport {
+    if (isApiContent(result)) {
+        const mimeType = result.contentType || EXPORT_MIME_TYPES[format] || "application/octet-stream";
+        return result.text !== undefined
+            ? {mimeType, text: result.text}
+            : {mimeType, blob: result.data};
+    }
+
+    return {mimeType: "application/json", text: JSON.stringify(result, null, 2)};
+}
+
+// Helper to present an export as tool content - images inline, everything else as an embedded resource
+function chartExportContent(uri: string, chartExport: ChartExport) {
+    if (chartExport.blob !== undefined && chartExport.mimeType.startsWith("image/")) {
+        return {type: "image" as const, data: chartExport.blob, mimeType: chartExport.mimeType};
+    }
+
+    return {
+        type: "resource" as const,
+        resource: chartExport.text !== undefined
+            ? {uri, mimeType: chartExport.mimeType, text: chartExport.text}
+            : {uri, mimeType: chartExport.mimeType, blob: chartExport.blob as string}
+    };
+}
+
+// Index of exports written to disk, kept next to the files
+const exportIndexPath = () => path.join(path.resolve(config.exportDir), ".exports.jsonl");
+
+// Helper to resolve a file path relative to a directory, refusing paths that escape it
+function resolveInsideDirectory(directory: string, filePath: string, parameter: string): string {
+    const root = path.resolve(directory);
+    const target = path.resolve(root, filePath);
+
+    if (!target.startsWith(root + path.sep)) {
+        throw new Error(`${parameter} must be a file path inside the directory ${root}`);
+    }
+    return target;
+}
+
+// Helper to write an export below the export directory
+async function saveChartExport(chartId: number, format: string, chartExport: ChartExport, outputPath: string): Promise<string> {
+    const root = path.resolve(config.exportDir);
+    const target = resolveInsideDirectory(root, outputPath, "outputPath");
+
+    const data = chartExport.text !== undefined
+        ? Buffer.from(chartExport.text, "utf-8")
+        : Buffer.from(chartExport.blob || "", "base64");
+
+    await fs.promises.mkdir(path.dirname(target), {recursive: true});
+    await fs.promises.writeFile(target, data);
+    await fs.promises.appendFile(exportIndexPath(), JSON.stringify({
+        chartId,
+        format,
+        mimeType: chartExport.mimeType,
+        path: path.relative(root, target),
+        size: data.length,
+        exportedAt: new Date().toISOString()
+    }) + "\n");
+
+    logInfo(`Saved export of chart ${chartId} to ${target}`);
+    return target;
+}
+
+// Helper to read the export index, newest first, marking files that no longer exist
+async function listChartExports(): Promise<any[]> {
+    let text = "";
+    try {
+        text = await fs.promises.readFile(exportIndexPath(), "utf-8");
+    } catch (error) {
+        return [];
+    }
+
+    const root = path.resolve(config.exportDir);
+    const entries: any[] = [];
+    for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line);
+            if (typeof entry?.path !== "string") continue;
+            entries.push({...entry, exists: fs.existsSync(path.join(root, entry.path))});
+        } catch (error) {
+            // A torn or hand-edited line must not hide the other exports
+        }
+    }
+    return entries.reverse();
+}
+
+//
+// CHART DATA AGGREGATION
+//
+
+const AGGREGATE_OPERATIONS = ["count", "sum", "avg", "min", "max"] as const;
+
+interface AggregateMetric {
+    op: typeof AGGREGATE_OPERATIONS[number];
+    field?: string;
+}
+
+// Helper to turn a CSV cell into a number when it looks like one, and empty cells into null
+function toCellValue(value: string): any {
+    const trimmed = value.trim();
+    if (trimmed === "") return null;
+    return /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(trimmed) ? Number(trimmed) : value;
+}
+
+// Helper to parse CSV text (RFC 4180 quoting) into rows keyed by the header line
+function parseCsv(text: string): Record<string, any>[] {
+    const input = text.replace(/^\uFEFF/, "");
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            record.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (field !== "" || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const [header, ...rows] = records.filter(values => values.some(value => value.trim() !== ""));
+    if (!header) return [];
+
+    return rows.map(values => Object.fromEntries(header.map((name, i) => [name.trim(), toCellValue(values[i] ?? "")])));
+}
+
+// Helper to get the data rows out of a chart export, whether it is CSV, a JSON array or a wrapped JSON array
+function extractChartRows(result: any): Record<string, any>[] {
+    if (isApiContent(result)) {
+        if (result.text === undefined) {
+            throw new Error(`Chart data of type ${result.contentType} cannot be aggregated`);
+        }
+        return isJsonMimeType(result.contentType) ? extractChartRows(JSON.parse(result.text)) : parseCsv(result.text);
+    }
+
+    if (Array.isArray(result)) {
+        // Arrays of arrays carry their column names in the first row
+        if (result.length > 0 && Array.isArray(result[0])) {
+            const [header, ...rows] = result as any[][];
+            return rows.map(values => Object.fromEntries(header.map((name, i) => [String(name), values[i] ?? null])));
+        }
+        return result.filter(row => row && typeof row === 'object');
+    }
+
+    if (result && typeof result === 'object') {
+        for (const key of ["content", "data", "rows", "results"]) {
+            if (Array.isArray(result[key])) return extractChartRows(result[key]);
+        }
+    }
+
+    throw new Error("Chart data does not contain a list of rows");
+}
+
+// Helper to read a possibly dotted field from a row, preferring a column literally named that way
+function getRowValue(row: Record<string, any>, field: string): any {
+    if (field in row) return row[field];
+    return field.split(".").reduce((value: any, key) => value && typeof value === 'object' ? value[key] : undefined, row);
+}
+
+// Helper to compare a row value with a filter value - numerically when both are numbers, otherwise case-insensitively
+function compareRowValue(value: any, expected: string): number | null {
+    if (value === null || value === undefined) return null;
+
+    const expectedNumber = Number(expected);
+    if (typeof value === 'number' && expected.trim() !== "" && !isNaN(expectedNumber)) {
+        return value - expectedNumber;
+    }
+
+    const actual = String(value).toLowerCase();
+    const wanted = expected.toLowerCase();
+    return actual < wanted ? -1 : actual > wanted ? 1 : 0;
+}
+
+// Helper for like/nlike - % and * are wildcards, a pattern without wildcards matches substrings
+function likeMatches(value: any, pattern: string): boolean {
+    if (value === null || value === undefined) return false;
+    if (!/[%*]/.test(pattern)) {
+        return String(value).toLowerCase().includes(pattern.toLowerCase());
+    }
+
+    const regex = pattern.split(/[%*]/).map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return new RegExp(`^${regex}$`, "i").test(String(value));
+}
+
+// Helper to apply one parsed filter term to a row locally
+function rowMatchesFilterTerm(row: Record<string, any>, term: FilterTerm): boolean {
+    const value = getRowValue(row, term.field);
+    const compare = (expected: string) => compareRowValue(value, expected);
+    const holds = (expected: string, test: (difference: number) => boolean) => {
+        const difference = compare(expected);
+        return difference !== null && test(difference);
+    };
+
+    switch (term.operator) {
+        case "eq": return holds(term.values[0], d => d === 0);
+        case "ne": return !holds(term.values[0], d => d === 0);
+        case "gt": return holds(term.values[0], d => d > 0);
+        case "lt": return holds(term.values[0], d => d < 0);
+        case "ge": return holds(term.values[0], d => d >= 0);
+        case "le": return holds(term.values[0], d => d <= 0);
+        case "like": return likeMatches(value, term.values[0]);
+        case "nlike": return !likeMatches(value, term.values[0]);
+        case "in": return term.values.some(expected => holds(expected, d => d === 0));
+        case "between": return holds(term.values[0], d => d >= 0) && holds(term.values[1], d => d <= 0);
+        case "isnull": return (value === null || value === undefined || value === "") === (term.values[0].toLowerCase() === "true");
+        default: return false;
+    }
+}
+
+// Helper to name the result column of a metric, e.g. sum_claims
+function metricColumn(metric: AggregateMetric): string {
+    return metric.field ? `${metric.op}_${metric.field}` : metric.op;
+}
+
+// Helper to group rows and compute the metrics of every group, keeping groups in order of first appearance
+function aggregateRows(rows: Record<string, any>[], groupBy: string[], metrics: AggregateMetric[]): Record<string, any>[] {
+    const groups = new Map<string, Record<string, any>[]>();
+
+    for (const row of rows) {
+        const key = JSON.stringify(groupBy.map(field => getRowValue(row, field) ?? null));
+        const group = groups.get(key);
+        if (group) {
+            group.push(row);
+        } else {
+            groups.set(key, [row]);
+        }
+    }
+
+    // Without a group-by, the whole (possibly empty) table is one group
+    if (groupBy.length === 0 && groups.size === 0) {
+        groups.set("[]", []);
+    }
+
+    return Array.from(groups.entries()).map(([key, groupRows]) => {
+        const result: Record<string, any> = {};
+        const keyValues = JSON.parse(key);
+        groupBy.forEach((field, i) => result[field] = keyValues[i]);
+
+        for (const metric of metrics) {
+            const values = metric.field
+                ? groupRows.map(row => getRowValue(row, metric.field!)).filter(value => value !== null && value !== undefined && value !== "")
+                : groupRows;
+            const numbers = values.map(Number).filter(value => !isNaN(value));
+            const total = numbers.reduce((sum, value) => sum + value, 0);
+            const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+            switch (metric.op) {
+                case "count": result[metricColumn(metric)] = values.length; break;
+                case "sum": result[metricColumn(metric)] = round(total); break;
+                case "avg": result[metricColumn(metric)] = numbers.length > 0 ? round(total / numbers.length) : null; break;
+                case "min": result[metricColumn(metric)] = numbers.length > 0 ? numbers.reduce((min, value) => Math.min(min, value)) : null; break;
+                case "max": result[metricColumn(metric)] = numbers.length > 0 ? numbers.reduce((max, value) => Math.max(max, value)) : null; break;
+            }
+        }
+
+        return result;
+    });
+}
+
+// Helper to render rows as a compact markdown table
+function formatTable(columns: string[], rows: Record<string, any>[]): string {
+    const cell = (value: any) => value === null || value === undefined ? "" : String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+    return [
+        `| ${columns.join(" | ")} |`,
+        `| ${columns.map(() => "---").join(" | ")} |`,
+        ...rows.map(row => `| ${columns.map(column => cell(row[column])).join(" | ")} |`)
+    ].join("\n");
+}
+
+//
+// CHART DATA COMPARISON
+//
+
+interface ChartDiff {
+    keyColumns: string[];
+    keySource: "specified" | "detected" | "position";
+    measures: string[];
+    addedColumns: string[];
+    removedColumns: string[];
+    typeChanges: {column: string, from: string, to: string}[];
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+    changed: Record<string, any>[];
+    changedRows: number;
+    unchanged: number;
+    totals: Record<string, any>[];
+}
+
+// Helper to list the columns of a table in order of first appearance
+function tableColumns(rows: Record<string, any>[]): string[] {
+    return [...new Set(rows.flatMap(row => Object.keys(row)))];
+}
+
+// Helper to describe the values of a column - number, string, boolean, object, mixed or empty
+function columnType(rows: Record<string, any>[], column: string): string {
+    const types = new Set(rows
+        .map(row => row[column])
+        .filter(value => value !== null && value !== undefined && value !== "")
+        .map(value => typeof value));
+
+    if (types.size === 0) return "empty";
+    return types.size === 1 ? [...types][0] : "mixed";
+}
+
+// Helper to build the key a row is aligned on
+function rowKey(row: Record<string, any>, keyColumns: string[]): string {
+    return JSON.stringify(keyColumns.map(column => row[column] ?? null));
+}
+
+function hasUniqueKeys(rows: Record<string, any>[], keyColumns: string[]): boolean {
+    return new Set(rows.map(row => rowKey(row, keyColumns))).size === rows.length;
+}
+
+// Helper to compare two chart tables, aligning rows on key columns (given, detected from the dimensions, or row position)
+function diffChartRows(rows1: Record<string, any>[], rows2: Record<string, any>[], keyColumns?: string[]): ChartDiff {
+    const columns1 = tableColumns(rows1);
+    const columns2 = tableColumns(rows2);
+    const common = columns1.filter(column => columns2.includes(column));
+
+    const typeChanges = common
+        .map(column => ({column, from: columnType(rows1, column), to: columnType(rows2, column)}))
+        .filter(change => change.from !== change.to && change.from !== "empty" && change.to !== "empty");
+
+    const measures = common.filter(column => columnType(rows1, column) === "number" || columnType(rows2, column) === "number")
+        .filter(column => ![columnType(rows1, column), columnType(rows2, column)].some(type => type !== "number" && type !== "empty"));
+    const dimensions = common.filter(column => !measures.includes(column));
+
+    let keys: string[];
+    let keySource: ChartDiff["keySource"];
+
+    if (keyColumns && keyColumns.length > 0) {
+        const missing = keyColumns.filter(column => !common.includes(column));
+        if (missing.length > 0) {
+            throw new Error(`Key column(s) not present in both charts: ${missing.join(", ")}. Shared columns: ${common.join(", ")}`);
+        }
+        if (!hasUniqueKeys(rows1, keyColumns) || !hasUniqueKeys(rows2, keyColumns)) {
+            throw new Error(`Key column(s) ${keyColumns.join(", ")} do not identify rows uniquely`);
+        }
+        keys = keyColumns;
+        keySource = "specified";
+    } else {
+        // Prefer a single dimension that identifies rows, then all dimensions together
+        const candidates = [...dimensions.map(column => [column]), dimensions];
+        const detected = candidates.find(candidate => candidate.length > 0 && hasUniqueKeys(rows1, candidate) && hasUniqueKeys(rows2, candidate));
+        keys = detected || [];
+        keySource = detected ? "detected" : "position";
+    }
+
+    const keyOf = (row: Record<string, any>, index: number) => keys.length > 0 ? rowKey(row, keys) : String(index);
+    const keyFields = (row: Record<string, any>, index: number) => keys.length > 0
+        ? Object.fromEntries(keys.map(column => [column, row[column] ?? null]))
+        : {row: index + 1};
+    const index1 = new Map(rows1.map((row, i) => [keyOf(row, i), row]));
+    const index2 = new Map(rows2.map((row, i) => [keyOf(row, i), row]));
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const delta = (before: any, after: any) => {
+        const from = typeof before === 'number' ? before : 0;
+        const to = typeof after === 'number' ? after : 0;
+        return {
+            delta: round(to - from),
+            percent: from !== 0 ? `${to - from >= 0 ? "+" : ""}${round((to - from) / Math.abs(from) * 100)}%` : null
+        };
+    };
+
+    const changed: Record<string, any>[] = [];
+    let changedRows = 0;
+    let unchanged = 0;
+
+    rows1.forEach((row1, i) => {
+        const row2 = index2.get(keyOf(row1, i));
+        if (!row2) return;
+
+        const differences = common
+            .filter(column => !keys.includes(column))
+            .filter(column => JSON.stringify(row1[column] ?? null) !== JSON.stringify(row2[column] ?? null));
+        if (differences.length === 0) {
+            unchanged++;
+            return;
+        }
+
+        changedRows++;
+        for (const column of differences) {
+            changed.push({
+                ...keyFields(row1, i),
+                column,
+                before: row1[column] ?? null,
+                after: row2[column] ?? null,
+                ...(measures.includes(column) ? delta(row1[column], row2[column]) : {delta: null, percent: null})
+            });
+        }
+    });
+
+    const totals = measures.map(column => {
+        const sum = (rows: Record<string, any>[]) => round(rows.reduce((total, row) => total + (typeof row[column] === 'number' ? row[column] : 0), 0));
+        const before = sum(rows1);
+        const after = sum(rows2);
+        return {measure: column, before, after, ...delta(before, after)};
+    });
+
+    return {
+        keyColumns: keys,
+        keySource,
+        measures,
+        addedColumns: columns2.filter(column => !columns1.includes(column)),
+        removedColumns: columns1.filter(column => !columns2.includes(column)),
+        typeChanges,
+        added: rows2.filter((row, i) => !index1.has(keyOf(row, i))),
+        removed: rows1.filter((row, i) => !index2.has(keyOf(row, i))),
+        changed,
+        changedRows,
+        unchanged,
+        totals
+    };
+}
+
+// Helper to format a chart comparison, listing at most maxRows rows per section
+function formatChartDiff(chartId1: number, chartId2: number, diff: ChartDiff, maxRows: number): string {
+    const section = (title: string, rows: Record<string, any>[], columns: string[]) => rows.length === 0
+        ? ""
+        : `\n\n${title} (${rows.length}${rows.length > maxRows ? `, showing the first ${maxRows}` : ""}):\n${formatTable(columns, rows.slice(0, maxRows))}`;
+    const keyLabel = diff.keySource === "position"
+        ? "row position (no unique key columns found - pass keyColumns to align on specific columns)"
+        : `${diff.keyColumns.join(", ")} (${diff.keySource})`;
+    const changeColumns = [...(diff.keySource === "position" ? ["row"] : diff.keyColumns), "column", "before", "after", "delta", "percent"];
+
+    const schema = [
+        diff.addedColumns.length > 0 ? `Columns only in chart ${chartId2}: ${diff.addedColumns.join(", ")}` : "",
+        diff.removedColumns.length > 0 ? `Columns only in chart ${chartId1}: ${diff.removedColumns.join(", ")}` : "",
+        ...diff.typeChanges.map(change => `Column ${change.column} changed type: ${change.from} -> ${change.to}`)
+    ].filter(line => line);
+
+    return `Comparison of chart ${chartId1} (before) with chart ${chartId2} (after)\n` +
+        `Rows aligned on: ${keyLabel}\n` +
+        `Measures: ${diff.measures.length > 0 ? diff.measures.join(", ") : "none"}\n` +
+        `Summary: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changedRows} changed, ${diff.unchanged} unchanged rows\n` +
+        `Schema:${schema.length > 0 ? `\n  - ${schema.join("\n  - ")}` : " identical"}` +
+        section("Measure totals", diff.totals, ["measure", "before", "after", "delta", "percent"]) +
+        section(`Rows only in chart ${chartId2}`, diff.added, tableColumns(diff.added)) +
+        section(`Rows only in chart ${chartId1}`, diff.removed, tableColumns(diff.removed)) +
+        section("Changed values", diff.changed, changeColumns);
+}
+
+//
+// OUTPUT FORMATTING
+//
+
+// Output options shared by the list and get tools
+const OUTPUT_OPTIONS = {
+    fields: z.array(z.string().min(1)).optional().describe("Optional: Only return these fields (dotted paths such as 'category.name' select nested fields)"),
+    format: z.enum(["pretty", "compact", "table"]).optional().default("pretty").describe("Output format: pretty (indented JSON), compact (minified JSON) or table (markdown table)"),
+    maxChars: z.number().int().min(0).optional().describe("Optional: Maximum length of the output in characters, 0 for no limit (default: maxOutputChars from the configuration)")
+};
+
+interface OutputOptions {
+    fields?: string[];
+    format: "pretty" | "compact" | "table";
+    maxChars?: number;
+}
+
+// Helper to find the list of items in a result - a plain array, or the content of a page
+function outputItems(value: any): any[] | null {
+    if (Array.isArray(value)) return value;
+    return value && typeof value === 'object' && Array.isArray(value.content) ? value.content : null;
+}
+
+// Helper to replace the items of a result, keeping page metadata such as totalElements
+function withOutputItems(value: any, items: any[]): any {
+    return Array.isArray(value) ? items : {...value, content: items};
+}
+
+// Helper to keep only the selected fields of an entity, nested paths stay nested
+function projectFields(entity: any, fields: string[]): any {
+    if (!entity || typeof entity !== 'object') return entity;
+
+    const projected: Record<string, any> = {};
+    for (const field of fields) {
+        const value = getRowValue(entity, field);
+        if (value === undefined) continue;
+
+        const keys = field in entity ? [field] : field.split(".");
+        let target = projected;
+        for (const key of keys.slice(0, -1)) {
+            target = target[key] = target[key] && typeof target[key] === 'object' ? target[key] : {};
+        }
+        target[keys[keys.length - 1]] = value;
+    }
+    return projected;
+}
+
+// Helper to render a result in the requested format
+function renderOutput(value: any, options: OutputOptions): string {
+    if (options.format === "compact") return JSON.stringify(value);
+    if (options.format === "pretty") return JSON.stringify(value, null, 2);
+
+    const cellValue = (entity: any, column: string) => {
+        const cell = getRowValue(entity, column);
+        return cell && typeof cell === 'object' ? JSON.stringify(cell) : cell;
+    };
+    const items = outputItems(value);
+
+    if (!items) {
+        const fields = options.fields ?? Object.keys(value ?? {});
+        return formatTable(["field", "value"], fields.map(field => ({field, value: cellValue(value, field)})));
+    }
+
+    const columns = options.fields ?? tableColumns(items.filter(item => item && typeof item === 'object'));
+    const table = formatTable(columns, items.map(item => Object.fromEntries(columns.map(column => [column, cellValue(item, column)]))));
+    if (Array.isArray(value)) return table;
+
+    const {content, ...metadata} = value;
+    return `${table}\n\n${JSON.stringify(metadata)}`;
+}
+
+// Helper to format a tool result with field projection, the requested format and a character budget.
+// Lists are cut at a whole item, and the continuation hint tells how to get the rest.
+function formatOutput(value: any, options: OutputOptions, continuation?: (shown: number) => string): string {
+    const maxChars = options.maxChars ?? config.maxOutputChars;
+    const items = outputItems(value);
+
+    let result = value;
+    if (options.fields && options.fields.length > 0) {
+        result = items ? withOutputItems(value, items.map(item => projectFields(item, options.fields!))) : projectFields(value, options.fields);
+    }
+
+    const output = renderOutput(result, options);
+    if (maxChars === 0 || output.length <= maxChars) return output;
+
+    const advice = `Select fewer fields with 'fields'${options.format === "compact" ? "" : ", use format 'compact'"}, or raise 'maxChars'`;
+
+    const resultItems = outputItems(result);
+    if (!resultItems) {
+        return `${output.slice(0, maxChars)}\n\n[TRUNCATED: the output was ${output.length} characters, limit is ${maxChars}. ` +
+            `${advice}.]`;
+    }
+
+    // Largest number of items that still fits the budget
+    let low = 0;
+    let high = resultItems.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (renderOutput(withOutputItems(result, resultItems.slice(0, middle)), options).length <= maxChars) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+
+    return `${renderOutput(withOutputItems(result, resultItems.slice(0, low)), options)}\n\n` +
+        `[TRUNCATED: showing ${low} of ${resultItems.length} items to stay within ${maxChars} characters. ` +
+        `${continuation && low > 0 ? `${continuation(low)} ` : ""}` +
+        `${advice} to see more at once.]`;
+}
+
+// Helper to build the continuation hint of a paged list - the largest page size up to the number of items that fitted
+// whose pages start right after the last item shown
+function pageContinuation(page: number, pageSize: number): (shown: number) => string {
+    return shown => {
+        const offset = (page - 1) * pageSize + shown;
+        let size = shown;
+        while (offset % size !== 0) size--;
+        return `To continue, call again with page=${offset / size + 1} and pageSize=${size}.`;
+    };
+}
+
+//
+// RESOURCE LISTING AND COMPLETION
+//
+
+// MCP caps completion results at 100 values
+const MAX_COMPLETIONS = 100;
+
+// Helper to fetch every chart or category for resource listing and completion - empty until connected.
+// Listings go through the response cache, so repeated completion requests do not hit the API each time.
+async function listEntitiesForBrowsing(state: ConnectionState, entityType: EntityType): Promise<any[]> {
+    if (!state.apiUrlSet || !state.authToken) {
+        return [];
+    }
+
+    try {
+        const result = await fetchAllPages(state, entityType === "chart" ? "/charts" : "/categories", {}, 100, DEFAULT_MAX_ITEMS);
+        return result.content.filter(entity => entity && entity.id !== undefined && entity.id !== null);
+    } catch (error) {
+        logError(`Could not list ${entityType} entities for browsing: ${getErrorMessage(error)}`);
+        return [];
+    }
+}
+
+// Helper to build a resource list with one entry per chart or category, named after its description
+async function listEntityResources(state: ConnectionState, entityType: EntityType, uriFor: (id: string) => string, nameFor: (description: string) => string = description => description) {
+    const entities = await listEntitiesForBrowsing(state, entityType);
+    const label = entityType === "chart" ? "Chart" : "Category";
+
+    return {
+        resources: entities.map(entity => ({
+            uri: uriFor(String(entity.id)),
+            name: nameFor(entity.description || `${label} ${entity.id}`),
+            mimeType: "application/json"
+        }))
+    };
+}
+
+// Helper to complete an entity ID - IDs starting with the typed value first, then entities whose description contains it
+async function completeEntityIds(state: ConnectionState, entityType: EntityType, value: string): Promise<string[]> {
+    const entities = await listEntitiesForBrowsing(state, entityType);
+    const search = value.trim().toLowerCase();
+
+    const byId = entities.filter(entity => String(entity.id).startsWith(search));
+    const byDescription = search
+        ? entities.filter(entity => !byId.includes(entity) && String(entity.description || "").toLowerCase().includes(search))
+        : [];
+
+    return [...byId, ...byDescription].slice(0, MAX_COMPLETIONS).map(entity => String(entity.id));
+}
+
+// Helper to complete an export format name
+function completeExportFormat(value: string): string[] {
+    return Object.keys(EXPORT_MIME_TYPES).filter(format => format.startsWith(value.toLowerCase()));
+}
+
+//
+// RESOURCE SUBSCRIPTIONS
+//
+
+interface ResourceSubscription {
+    fingerprint: string | null;
+    // Fingerprint of the IDs and descriptions of a list, which make up the enumerated resources
+    listFingerprint: string | null;
+}
+
+// Helper to map a subscribable resource URI to the endpoint that is polled for it - null if it cannot be subscribed to
+function subscriptionEndpoint(uri: string): {endpoint: string; isList: boolean} | null {
+    const match = /^(charts|categories):\/\/(list|\d+)$/.exec(uri);
+    if (!match) return null;
+
+    const isList = match[2] === "list";
+    return {endpoint: isList ? `/${match[1]}` : `/${match[1]}/${match[2]}`, isList};
+}
+
+function fingerprint(value: any): string {
+    return createHash("sha256").update(JSON.stringify(value) ?? "").digest("hex");
+}
+
+// Helper to take a fresh snapshot of a subscribed resource, bypassing the response cache
+async function snapshotResource(state: ConnectionState, uri: string): Promise<ResourceSubscription> {
+    const {endpoint, isList} = subscriptionEndpoint(uri)!;
+    evictCachedEndpoint(state.responseCache, endpoint);
+
+    if (isList) {
+        const result = await fetchAllPages(state, endpoint, {}, 100, DEFAULT_MAX_ITEMS);
+        return {
+            fingerprint: fingerprint(result.content),
+            listFingerprint: fingerprint(result.content.map(entity => [entity?.id, entity?.description]))
+        };
+    }
+
+    try {
+        return {fingerprint: fingerprint(await authenticatedRequest(state, endpoint)), listFingerprint: null};
+    } catch (error) {
+        // A deleted entity is a change as well
+        if (getErrorMessage(error).includes("status 404")) {
+            return {fingerprint: "not found", listFingerprint: null};
+        }
+        throw error;
+    }
+}
+
+// Helper to poll every subscribed resource once and notify the client about the ones that changed
+async function pollSubscriptions(state: ConnectionState, server: McpServer) {
+    if (!state.apiUrlSet || !state.authToken) {
+        return;
+    }
+
+    for (const [uri, subscription] of state.subscriptions) {
+        try {
+            const snapshot = await snapshotResource(state, uri);
+
+            // Skip resources that were unsubscribed while polling
+            if (state.subscriptions.get(uri) !== subscription) continue;
+
+            if (subscription.fingerprint !== null && snapshot.fingerprint !== subscription.fingerprint) {
+                logInfo(`Subscribed resource ${uri} changed`);
+                await server.server.sendResourceUpdated({uri});
+            }
+            if (subscription.listFingerprint !== null && snapshot.listFingerprint !== subscription.listFingerprint) {
+                server.sendResourceListChanged();
+            }
+
+            subscription.fingerprint = snapshot.fingerprint;
+            subscription.listFingerprint = snapshot.listFingerprint;
+        } catch (error) {
+            logError(`Could not poll subscribed resource ${uri}: ${getErrorMessage(error)}`);
+        }
+    }
+}
+
+function startSubscriptionPolling(state: ConnectionState, server: McpServer) {
+    if (state.subscriptionTimer) {
+        return;
+    }
+
+    state.subscriptionTimer = setInterval(() => {
+        // Never let slow polls pile up
+        if (state.subscriptionPoll) return;
+
+        state.subscriptionPoll = pollSubscriptions(state, server).finally(() => {
+            state.subscriptionPoll = null;
+        });
+    }, config.subscriptionPollInterval * 1000);
+
+    // Never keep the process alive just for the polling timer
+    state.subscriptionTimer.unref();
+}
+
+function stopSubscriptionPolling(state: ConnectionState) {
+    if (state.subscriptionTimer) {
+        clearInterval(state.subscriptionTimer);
+        state.subscriptionTimer = null;
+    }
+}
+
+//
+// TOOL POLICY
+//
+
+// MCP annotations shared by the tools, so clients can auto-approve reads and ask before changes
+const READS_DATA: ToolAnnotations = {readOnlyHint: true, destructiveHint: false, idempotentHint: true};
+// Changes only this server's session (connection, profiles, cache) or writes local files
+const CHANGES_LOCAL_STATE: ToolAnnotations = {readOnlyHint: false, destructiveHint: false, idempotentHint: true};
+const ENDS_SESSION: ToolAnnotations = {readOnlyHint: false, destructiveHint: true, idempotentHint: true};
+const CREATES_DATA: ToolAnnotations = {readOnlyHint: false, destructiveHint: false, idempotentHint: false};
+// Updates, deletes and reorders overwrite what was there before
+const CHANGES_DATA: ToolAnnotations = {readOnlyHint: false, destructiveHint: true, idempotentHint: true};
+
+// Tools that are not read-only but only change this server's session or local files, so read-only mode keeps them
+const LOCAL_STATE_TOOLS = new Set([
+    "set-api-url", "add-profile", "use-profile", "remove-profile", "authenticate", "keep-session-alive",
+    "authenticate-with-credentials", "logout", "set-organization", "export-chart", "backup-dashboard", "clear-cache"
+]);
+
+// Helper to match a tool name against an allow/deny list entry, where "*" matches any characters
+function matchesToolPattern(name: string, pattern: string): boolean {
+    const regex = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return new RegExp(`^${regex}$`).test(name);
+}
+
+// Helper to decide whether a tool is registered at all - read-only mode, then the allow list, then the deny list.
+// In read-only mode, every tool without readOnlyHint is left out unless it only changes local state.
+function isToolEnabled(name: string, annotations: ToolAnnotations): boolean {
+    if (config.readOnly && annotations.readOnlyHint !== true && !LOCAL_STATE_TOOLS.has(name)) {
+        return false;
+    }
+    return isToolAllowed(name);
+}
+
+// Helper to check a tool name against the allow and deny lists
+function isToolAllowed(name: string): boolean {
+    if (config.allowTools && !config.allowTools.some(pattern => matchesToolPattern(name, pattern))) {
+        return false;
+    }
+    return !config.denyTools.some(pattern => matchesToolPattern(name, pattern));
+}
+
+//
+// DASHBOARD BACKUP
+//
+
+// Layout version of backup archives - restore refuses archives it does not know
+const BACKUP_FORMAT_VERSION = 1;
+
+const backupEntitySchema = z.object({id: z.number()}).catchall(z.any());
+
+const backupArchiveSchema = z.object({
+    manifest: z.object({
+        format: z.literal("pi-dashboard-backup"),
+        version: z.number().int(),
+        createdAt: z.string(),
+        apiUrl: z.string().nullable(),
+        orgId: z.number().nullable(),
+        counts: z.object({categories: z.number(), categoryObjects: z.number(), charts: z.number()}),
+        truncated: z.boolean()
+    }),
+    categories: z.array(backupEntitySchema),
+    // Category objects keyed by the ID of their category
+    categoryObjects: z.record(z.array(backupEntitySchema)),
+    charts: z.array(backupEntitySchema)
+});
+
+type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
+// Result of restoring one entity
+interface RestoreItemResult {
+    entityType: "category" | "category object" | "chart";
+    oldId: number;
+    newId?: number;
+    description: string | null;
+    status: "would create" | "created" | "failed" | "skipped";
+    error?: string;
+}
+
+// Helper to read every category, category object and chart of the current organization into an archive
+async function createBackupArchive(
+    state: ConnectionState,
+    onProgress?: (fetched: number, total: number | undefined) => Promise<void>
+): Promise<BackupArchive> {
+    const categories = await fetchAllPages(state, "/categories", {}, 100, DEFAULT_MAX_ITEMS);
+    const charts = await fetchAllPages(state, "/charts", {}, 100, DEFAULT_MAX_ITEMS);
+
+    const categoryObjects: Record<string, any[]> = {};
+    let truncated = categories.truncated || charts.truncated;
+    for (const [index, category] of categories.content.entries()) {
+        const objects = await fetchAllPages(state, `/categories/${category.id}/categoryObjects`, {}, 100, DEFAULT_MAX_ITEMS);
+        categoryObjects[String(category.id)] = objects.content;
+        truncated = truncated || objects.truncated;
+
+        if (onProgress) {
+            await onProgress(index + 1, categories.content.length);
+        }
+    }
+
+    return {
+        manifest: {
+            format: "pi-dashboard-backup",
+            version: BACKUP_FORMAT_VERSION,
+            createdAt: new Date().toISOString(),
+            apiUrl: state.apiBaseUrl,
+            orgId: state.orgId,
+            counts: {
+                categories: categories.content.length,
+                categoryObjects: Object.values(categoryObjects).reduce((total, objects) => total + objects.length, 0),
+                charts: charts.content.length
+            },
+            truncated
+        },
+        categories: categories.content,
+        categoryObjects,
+        charts: charts.content
+    };
+}
+
+// Helper to read and validate a backup archive from the backup directory
+async function readBackupArchive(archivePath: string): Promise<BackupArchive> {
+    const target = resolveInsideDirectory(config.backupDir, archivePath, "archive");
+
+    let text: string;
+    try {
+        text = await fs.promises.readFile(target, "utf-8");
+    } catch (error) {
+        const available = await fs.promises.readdir(path.resolve(config.backupDir)).catch(() => [] as string[]);
+        throw new Error(`Backup ${target} could not be read: ${getErrorMessage(error)}. ` +
+            `Available backups: ${available.filter(name => name.endsWith(".json")).join(", ") || "none"}`);
+    }
+
+    const parsed = backupArchiveSchema.safeParse(JSON.parse(text));
+    if (!parsed.success) {
+        throw new Error(`${target} is not a dashboard backup: ${parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+    }
+    if (parsed.data.manifest.version > BACKUP_FORMAT_VERSION) {
+        throw new Error(`${target} was written by a newer version of this server (backup format ${parsed.data.manifest.version})`);
+    }
+    return parsed.data;
+}
+
+// Helper to copy an entity for re-creation, without the fields PI manages itself
+function withoutReadOnlyFields(entity: Record<string, any>): Record<string, any> {
+    const payload = {...entity};
+    for (const field of CHART_READ_ONLY_FIELDS) {
+        delete payload[field];
+    }
+    return payload;
+}
+
+// Helper to point an entity payload at another category. The nested category PI returns with an entity is rewritten
+// as well, as it would otherwise still name the original category.
+function moveToCategory(payload: Record<string, any>, categoryId: number): Record<string, any> {
+    payload.categoryId = categoryId;
+    if (payload.category && typeof payload.category === "object") {
+        payload.category = {...payload.category, id: categoryId};
+    }
+    return payload;
+}
+
+// Helper to recreate the entities of an archive that no longer exist - categories, then their objects, then charts.
+// Old category IDs are mapped to the new ones so that children end up under the recreated parent.
+async function restoreBackupArchive(
+    state: ConnectionState,
+    archive: BackupArchive,
+    dryRun: boolean
+): Promise<{results: RestoreItemResult[]; existing: number}> {
+    const results: RestoreItemResult[] = [];
+    let existing = 0;
+
+    // Old category ID -> ID to use now (null when it would be created by a dry run)
+    const categoryIds = new Map<number, number | null>();
+    const failedCategories = new Set<number>();
+
+    const create = async (item: Omit<RestoreItemResult, "status">, endpoint: string, payload: any): Promise<number | null> => {
+        if (dryRun) {
+            results.push({...item, status: "would create"});
+            return null;
+        }
+        try {
+            const created = await authenticatedRequest(state, endpoint, "POST", payload);
+            // Children are posted against a category's new ID, so a category without one counts as failed
+            if (item.entityType === "category" && typeof created?.id !== "number") {
+                throw new Error("PI did not return the ID of the created category");
+            }
+            results.push({...item, newId: created?.id, status: "created"});
+            return typeof created?.id === "number" ? created.id : null;
+        } catch (error) {
+            results.push({...item, status: "failed", error: getErrorMessage(error)});
+            throw error;
+        }
+    };
+
+    const currentCategories = new Set((await fetchAllPages(state, "/categories", {}, 100, DEFAULT_MAX_ITEMS)).content.map(category => category.id));
+    for (const category of archive.categories) {
+        if (currentCategories.has(category.id)) {
+            categoryIds.set(category.id, category.id);
+            existing++;
+            continue;
+        }
+
+        try {
+            const item = {entityType: "category" as const, oldId: category.id, description: category.description ?? null};
+            categoryIds.set(category.id, await create(item, "/categories", withoutReadOnlyFields(category)));
+        } catch (error) {
+            failedCategories.add(category.id);
+        }
+    }
+
+    for (const [categoryKey, objects] of Object.entries(archive.categoryObjects)) {
+        const oldCategoryId = Number(categoryKey);
+        const newCategoryId = categoryIds.get(oldCategoryId) ?? null;
+
+        // Only a category that survived can still have (some of) its objects
+        const currentObjects = newCategoryId === oldCategoryId
+            ? new Set((await fetchAllPages(state, `/categories/${oldCategoryId}/categoryObjects`, {}, 100, DEFAULT_MAX_ITEMS)).content.map(object => object.id))
+            : new Set();
+
+        const ordered = [...objects].sort((a, b) => (Number(a.position) || 0) - (Number(b.position) || 0));
+        for (const object of ordered) {
+            const item = {entityType: "category object" as const, oldId: object.id, description: object.description ?? null};
+            if (currentObjects.has(object.id)) {
+                existing++;
+            } else if (failedCategories.has(oldCategoryId) || !categoryIds.has(oldCategoryId)) {
+                results.push({...item, status: "skipped", error: `category ${oldCategoryId} could not be restored`});
+            } else {
+                const payload = withoutReadOnlyFields(object);
+                if ("categoryId" in payload || "category" in payload) moveToCategory(payload, newCategoryId ?? oldCategoryId);
+                await create(item, `/categories/${newCategoryId ?? oldCategoryId}/categoryObjects`, payload).catch(() => null);
+            }
+        }
+    }
+
+    const currentCharts = new Set((await fetchAllPages(state, "/charts", {}, 100, DEFAULT_MAX_ITEMS)).content.map(chart => chart.id));
+    for (const chart of archive.charts) {
+        const item = {entityType: "chart" as const, oldId: chart.id, description: chart.description ?? null};
+        if (currentCharts.has(chart.id)) {
+            existing++;
+            continue;
+        }
+
+        const oldCategoryId = typeof chart.categoryId === "number" ? chart.categoryId : null;
+        if (oldCategoryId !== null && failedCategories.has(oldCategoryId)) {
+            results.push({...item, status: "skipped", error: `category ${oldCategoryId} could not be restored`});
+            continue;
+        }
+
+        const payload = withoutReadOnlyFields(chart);
+        if (oldCategoryId !== null && categoryIds.has(oldCategoryId)) {
+            moveToCategory(payload, categoryIds.get(oldCategoryId) ?? oldCategoryId);
+        }
+        await create(item, "/charts", payload).catch(() => null);
+    }
+
+    return {results, existing};
+}
+
+//
+// PROMOTION BETWEEN ENVIRONMENTS
+//
+
+// Fields that only make sense in the environment an entity comes from
+const PROMOTION_IGNORED_FIELDS = [...CHART_READ_ONLY_FIELDS, "orgId", "category"];
+
+// One step of a promotion plan, and its outcome once applied
+interface PromotionStep {
+    entityType: "category" | "chart";
+    sourceId: number;
+    description: string;
+    action: "create" | "update" | "unchanged";
+    targetId: number | null;
+    changes?: Record<string, {from: any; to: any}>;
+    status?: "created" | "updated" | "unchanged" | "failed" | "skipped";
+    error?: string;
+}
+
+interface PlannedPromotion {
+    step: PromotionStep;
+    payload: Record<string, any>;
+    // Source category of a chart, whose target ID is only known once the category exists
+    sourceCategoryId?: number;
+}
+
+// Helper to open a separate connection for a stored profile, so a promotion never switches the session's own connection
+function connectionForProfile(state: ConnectionState, name: string): ConnectionState {
+    saveActiveProfile(state);
+
+    const profile = state.profiles[name];
+    if (!profile) {
+        throw new Error(`Profile '${name}' does not exist. Available profiles: ${Object.keys(state.profiles).join(", ") || "none"}`);
+    }
+    if (!profile.authToken) {
+        throw new Error(`Profile '${name}' has no token. Switch to it with use-profile and authenticate first.`);
+    }
+
+    const connection = createConnectionState(profile.apiBaseUrl, profile.authToken);
+    connection.orgId = profile.orgId;
+    connection.connectionVerified = profile.connectionVerified;
+    // The session's credentials and refresh command belong to another environment
+    connection.reauthenticationError = `The token of profile '${name}' was rejected. Switch to it with use-profile, re-authenticate and try again.`;
+    return connection;
+}
+
+// Helper to open a connection for an environment given by API URL and token instead of a profile
+function connectionForApiUrl(apiUrl: string, token: string): ConnectionState {
+    const connection = createConnectionState(apiUrl, token);
+    connection.reauthenticationError = `The token for ${apiUrl} was rejected. Pass a new token and try again.`;
+    return connection;
+}
+
+// Helper to update an entity in the target. PUT replaces the whole entity, so the changes are merged into its current state.
+async function updateMerged(target: ConnectionState, endpoint: string, changes: Record<string, any>) {
+    const current = await authenticatedRequest(target, endpoint);
+    return authenticatedRequest(target, endpoint, "PUT", {...withoutReadOnlyFields(current), ...changes});
+}
+
+// Helper to copy an entity for another environment
+function promotionPayload(entity: Record<string, any>): Record<string, any> {
+    const payload = {...entity};
+    for (const field of PROMOTION_IGNORED_FIELDS) {
+        delete payload[field];
+    }
+    return payload;
+}
+
+// Helper to list the fields of a payload that differ from an existing entity
+function payloadChanges(payload: Record<string, any>, existing: Record<string, any>): Record<string, {from: any; to: any}> {
+    const changes: Record<string, {from: any; to: any}> = {};
+    for (const [field, value] of Object.entries(payload)) {
+        if (JSON.stringify(existing[field] ?? null) !== JSON.stringify(value ?? null)) {
+            changes[field] = {from: existing[field] ?? null, to: value};
+        }
+    }
+    return changes;
+}
+
+// Helper to plan a promotion - every category is matched by description in the target, and so is every chart within its category
+async function planPromotion(
+    source: ConnectionState,
+    target: ConnectionState,
+    categoryIds: number[],
+    includeCharts: boolean
+): Promise<{categories: PlannedPromotion[]; charts: PlannedPromotion[]; categoryIdMap: Map<number, number>}> {
+    const categories: PlannedPromotion[] = [];
+    const charts: PlannedPromotion[] = [];
+    // Source category ID -> ID of the matching category in the target
+    const categoryIdMap = new Map<number, number>();
+
+    const targetCategories = (await fetchAllPages(target, "/categories", {}, 100, DEFAULT_MAX_ITEMS)).content;
+
+    for (const categoryId of new Set(categoryIds)) {
+        const category = await authenticatedRequest(source, `/categories/${categoryId}`).catch(error => {
+            throw new Error(`Could not read category ${categoryId} from the source: ${getErrorMessage(error)}`);
+        });
+        const payload = promotionPayload(category);
+        const match = targetCategories.find(candidate => candidate.description === category.description);
+
+        if (match) {
+            categoryIdMap.set(categoryId, match.id);
+            const changes = payloadChanges(payload, match);
+            categories.push({
+                step: {
+                    entityType: "category", sourceId: categoryId, description: category.description, targetId: match.id,
+                    action: Object.keys(changes).length > 0 ? "update" : "unchanged",
+                    ...(Object.keys(changes).length > 0 ? {changes} : {})
+                },
+                payload: Object.fromEntries(Object.keys(changes).map(field => [field, payload[field]]))
+            });
+        } else {
+            categories.push({
+                step: {entityType: "category", sourceId: categoryId, description: category.description, targetId: null, action: "create"},
+                payload
+            });
+        }
+
+        if (!includeCharts) continue;
+
+        // Servers that ignore the filter still return the right charts after the local check
+        const sourceCharts = (await fetchAllPages(source, "/charts", {"categoryId(eq)": String(categoryId)}, 100, DEFAULT_MAX_ITEMS)).content
+            .filter(chart => chart.categoryId === undefined || chart.categoryId === categoryId);
+        const targetCategoryId = categoryIdMap.get(categoryId);
+        const targetCharts = targetCategoryId !== undefined
+            ? (await fetchAllPages(target, "/charts", {"categoryId(eq)": String(targetCategoryId)}, 100, DEFAULT_MAX_ITEMS)).content
+                .filter(chart => chart.categoryId === undefined || chart.categoryId === targetCategoryId)
+            : [];
+
+        for (const chart of sourceCharts) {
+            const chartPayload: Record<string, any> = {...promotionPayload(chart), categoryId: targetCategoryId ?? null};
+            const chartMatch = targetCharts.find(candidate => candidate.description === chart.description);
+            const changes = chartMatch ? payloadChanges(chartPayload, chartMatch) : {};
+
+            charts.push({
+                step: {
+                    entityType: "chart", sourceId: chart.id, description: chart.description, targetId: chartMatch?.id ?? null,
+                    action: !chartMatch ? "create" : Object.keys(changes).length > 0 ? "update" : "unchanged",
+                    ...(Object.keys(changes).length > 0 ? {changes} : {})
+                },
+                payload: chartMatch ? Object.fromEntries(Object.keys(changes).map(field => [field, chartPayload[field]])) : chartPayload,
+                sourceCategoryId: categoryId
+            });
+        }
+    }
+
+    return {categories, charts, categoryIdMap};
+}
+
+// Helper to apply a promotion plan to the target - categories first, so that charts can point at their new IDs
+async function applyPromotion(target: ConnectionState, plan: Awaited<ReturnType<typeof planPromotion>>) {
+    for (const {step, payload} of plan.categories) {
+        try {
+            if (step.action === "create") {
+                const created = await authenticatedRequest(target, "/categories", "POST", payload);
+                step.targetId = created?.id ?? null;
+                if (step.targetId !== null) plan.categoryIdMap.set(step.sourceId, step.targetId);
+                step.status = "created";
+            } else if (step.action === "update") {
+                await updateMerged(target, `/categories/${step.targetId}`, payload);
+                step.status = "updated";
+            } else {
+                step.status = "unchanged";
+            }
+        } catch (error) {
+            step.status = "failed";
+            step.error = getErrorMessage(error);
+        }
+    }
+
+    for (const {step, payload, sourceCategoryId} of plan.charts) {
+        const targetCategoryId = plan.categoryIdMap.get(sourceCategoryId!);
+        if (targetCategoryId === undefined) {
+            step.status = "skipped";
+            step.error = `category ${sourceCategoryId} was not promoted`;
+            continue;
+        }
+
+        try {
+            if (step.action === "create") {
+                const created = await authenticatedRequest(target, "/charts", "POST", moveToCategory({...payload}, targetCategoryId));
+                step.targetId = created?.id ?? null;
+                step.status = "created";
+            } else if (step.action === "update") {
+                await updateMerged(target, `/charts/${step.targetId}`, payload);
+                step.status = "updated";
+            } else {
+                step.status = "unchanged";
+            }
+        } catch (error) {
+            step.status = "failed";
+            step.error = getErrorMessage(error);
+        }
+    }
+}
+
+//
+// PLUGINS
+//
+
+// What a plugin's register function receives. Its requests use the session's connection, with caching,
+// retries, re-authentication and the audit log.
+interface PluginContext {
+    server: McpServer;
+    authenticatedRequest: (endpoint: string, method?: string, body?: any, queryParams?: Record<string, string>) => Promise<any>;
+    parseFilters: typeof parseFilters;
+    state: ConnectionState;
+    config: ServerConfig;
+    logger: {info: (message: string) => void; error: (message: string) => void};
+}
+
+interface Plugin {
+    name: string;
+    file: string;
+    version: string | null;
+    register: ((context: PluginContext) => void | Promise<void>) | null;
+    // Why the plugin could not be loaded
+    error: string | null;
+}
+
+// What a plugin registered with one session's server, and why its register function failed there
+interface PluginRegistration {
+    tools: string[];
+    resources: string[];
+    prompts: string[];
+    error: string | null;
+}
+
+// Plugins found in pluginDir, loaded once at startup and registered with every session's server
+const plugins: Plugin[] = [];
+
+// Helper to import the plugins of a directory. A plugin module exports a register function, either as the
+// default export or as part of a default {name, version, register} object. A broken plugin never stops the server.
+async function loadPlugins(directory: string) {
+    let files: string[];
+    try {
+        files = (await fs.promises.readdir(directory)).filter(file => /\.m?js$/.test(file)).sort();
+    } catch (error) {
+        logError(`Could not read the plugin directory ${directory}: ${getErrorMessage(error)}`);
+        return;
+    }
+
+    for (const file of files) {
+        const plugin: Plugin = {
+            name: path.basename(file, path.extname(file)),
+            file: path.resolve(directory, file),
+            version: null,
+            register: null,
+            error: null
+        };
+
+        try {
+            const module = await import(pathToFileURL(plugin.file).href);
+            const definition = module.default ?? module;
+            const register = typeof definition === 'function' ? definition : definition?.register;
+            if (typeof register !== 'function') {
+                throw new Error("The module exports no register function");
+            }
+
+            plugin.register = register;
+            if (typeof definition.name === 'string' && typeof definition !== 'function') plugin.name = definition.name;
+            if (typeof definition.version === 'string') plugin.version = definition.version;
+            logInfo(`Loaded plugin ${plugin.name}${plugin.version ? ` ${plugin.version}` : ""} from ${plugin.file}`);
+        } catch (error) {
+            plugin.error = getErrorMessage(error);
+            logError(`Could not load plugin ${plugin.file}: ${plugin.error}`);
+        }
+        plugins.push(plugin);
+    }
+}
+
+// Helper to let a plugin register with a session's server. What it registers is reported by plugins://list, and its tools
+// follow the same policy as built-in ones: in read-only mode only tools annotated with readOnlyHint are kept.
+async function registerPlugin(plugin: Plugin, server: McpServer, state: ConnectionState, toolNames: string[]): Promise<PluginRegistration> {
+    const registration: PluginRegistration = {tools: [], resources: [], prompts: [], error: null};
+    // Everything the plugin added to the server, removed again if register fails partway
+    const handles: {remove: () => void}[] = [];
+    const pluginToolNames: string[] = [];
+    const record = (list: string[], name: any, registered: any) => {
+        if (typeof name === 'string' && !list.includes(name)) list.push(name);
+        if (typeof registered?.remove === 'function') handles.push(registered);
+    };
+
+    const pluginServer = new Proxy(server, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof value !== 'function') return value;
+
+            if (property === "tool" || property === "registerTool") {
+                return (name: string, ...rest: any[]) => {
+                    const callback = rest.pop();
+                    const registered = value.call(target, name, ...rest, typeof callback === 'function' ? audited(name, callback) : callback);
+                    pluginToolNames.push(name);
+                    if ((config.readOnly && registered.annotations?.readOnlyHint !== true) || !isToolAllowed(name)) {
+                        registered.remove();
+                        logInfo(`Plugin tool ${name} left out by read-only mode or the allow/deny lists`);
+                    } else {
+                        record(registration.tools, name, registered);
+                    }
+                    return registered;
+                };
+            }
+            if (property === "resource" || property === "registerResource") {
+                return (name: string, ...rest: any[]) => {
+                    const registered = value.call(target, name, ...rest);
+                    record(registration.resources, name, registered);
+                    return registered;
+                };
+            }
+            if (property === "prompt" || property === "registerPrompt") {
+                return (name: string, ...rest: any[]) => {
+                    const registered = value.call(target, name, ...rest);
+                    record(registration.prompts, name, registered);
+                    return registered;
+                };
+            }
+            return value.bind(target);
+        }
+    });
+
+    const context: PluginContext = {
+        server: pluginServer,
+        authenticatedRequest: (endpoint, method, body, queryParams) => authenticatedRequest(state, endpoint, method, body, queryParams),
+        parseFilters,
+        state,
+        config,
+        logger: {
+            info: message => logInfo(`[${plugin.name}] ${message}`),
+            error: message => logError(`[${plugin.name}] ${message}`)
+        }
+    };
+
+    try {
+        await plugin.register!(context);
+        // Tools left out by policy still count for the allow/deny list check, as built-in ones do
+        toolNames.push(...pluginToolNames);
+    } catch (error) {
+        // A half-registered plugin would leave tools whose resources or prompts are missing
+        for (const handle of handles) {
+            handle.remove();
+        }
+        registration.tools = [];
+        registration.resources = [];
+        registration.prompts = [];
+        registration.error = getErrorMessage(error);
+        logError(`Plugin ${plugin.name} failed to register, its tools, resources and prompts were removed: ${registration.error}`);
+    }
+    return registration;
+}
+
+// Helper function to verify connection status
+async function verifyConnection(state: ConnectionState): Promise<boolean> {
+    if (!state.apiUrlSet || !state.apiBaseUrl) {
+        return false;
+    }
+
+    if (!state.authToken) {
+        return false;
+    }
+
+    try {
+        // Try a lightweight request to verify the connection
+        await authenticatedRequest(state, "/tokens/keepAlive", "POST");
+        state.connectionVerified = true;
+        return true;
+    } catch (error) {
+        logError(`Connection verification failed: ${getErrorMessage(error)}`);
+        state.connectionVerified = false;
+        return false;
+    }
+}
+
+// Create an MCP server bound to a single connection state. Plugins have registered by the time it resolves.
+async function createServer(state: ConnectionState): Promise<McpServer> {
+    const server = new McpServer({
+        name: "PI API Server",
+        version: "1.0.0"
+    });
+
+    // Every tool is registered through this, with its annotations. Tools excluded by read-only mode
+    // or the allow/deny lists are not registered, so clients never see them.
+    const toolNames: string[] = [];
+    const skippedTools: string[] = [];
+    // What each plugin registered with this session
+    const pluginRegistrations = new Map<Plugin, PluginRegistration>();
+    const registerTool = <Args extends z.ZodRawShape>(
+        name: string,
+        description: string,
+        paramsSchema: Args,
+        annotations: ToolAnnotations,
+        callback: ToolCallback<Args>
+    ) => {
+        toolNames.push(name);
+        if (!isToolEnabled(name, annotations)) {
+            skippedTools.push(name);
+            return;
+        }
+        server.tool(name, description, paramsSchema, annotations, callback);
+    };
+
+    // Keep the token alive in the background for as long as the session is open
+    startKeepAlive(state);
+    server.server.onclose = () => {
+        stopKeepAlive(state);
+        stopSubscriptionPolling(state);
+    };
+
+    // Let clients subscribe to charts and categories, which are polled for changes
+    if (config.subscriptionPollInterval > 0) {
+        server.server.registerCapabilities({resources: {subscribe: true, listChanged: true}});
+
+        server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+            const {uri} = request.params;
+            if (!subscriptionEndpoint(uri)) {
+                throw new McpError(ErrorCode.InvalidParams,
+                    `Cannot subscribe to ${uri}. Subscriptions are supported for charts://list, categories://list, charts://{id} and categories://{id}`);
+            }
+
+            if (!state.subscriptions.has(uri)) {
+                // The baseline is taken on the first poll if the resource cannot be read yet
+                let subscription: ResourceSubscription = {fingerprint: null, listFingerprint: null};
+                try {
+                    subscription = await snapshotResource(state, uri);
+                } catch (error) {
+                    logError(`Could not read ${uri} when subscribing: ${getErrorMessage(error)}`);
+                }
+                state.subscriptions.set(uri, subscription);
+                logInfo(`Subscribed to ${uri}, polling every ${config.subscriptionPollInterval}s`);
+            }
+
+            startSubscriptionPolling(state, server);
+            return {};
+        });
+
+        server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+            state.subscriptions.delete(request.params.uri);
+            if (state.subscriptions.size === 0) {
+                stopSubscriptionPolling(state);
+            }
+            return {};
+        });
+    }
+
+
+    //
+    // SCHEMA DISCOVERY TOOL
+    //
+    registerTool(
+        "get-filterable-attributes",
+        "Get the list of attributes that can be used for filtering, inferred from a sample of entities (types, nullability, nested paths, dates and enum values)",
+        {
+            entityType: z.enum(["chart", "category"]).describe("Type of entity to examine (chart or category)"),
+            sampleSize: z.number().int().min(1).optional().describe(`Optional: Number of entities to sample (default: ${config.schemaSampleSize})`)
+        },
+        READS_DATA,
+        async ({entityType, sampleSize}) => {
+            try {
+                if (!state.apiUrlSet || !state.authToken) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "Please set API URL and authenticate before using this tool."
+                        }]
+                    };
+                }
+
+                const schema = await inferEntitySchema(state, entityType, false, sampleSize);
+
+                if (schema) {
+                    const attributes = schema.attributes.filter(attr => attr.operators.length > 0);
+
+                    // An enum's known values make a good multi-filter example
+                    const enumField = attributes.find(attr => attr.values && attr.values.length > 1);
+                    const stringField = attributes.find(attr => attr.type === "string" && attr.example && attr.example !== "null");
+                    let exampleFilter = "";
+
+                    if (stringField) {
+                        exampleFilter = `${stringField.name}(like)=${stringField.example}`;
+                    } else if (attributes.length > 0) {
+                        const firstAttr = attributes[0];
+                        exampleFilter = `${firstAttr.name}(${firstAttr.operators[0]})=${firstAttr.example}`;
+                    }
+
+                    let exampleMultipleFilter = "";
+                    if (enumField && enumField !== stringField) {
+                        exampleMultipleFilter = `${exampleFilter}&${enumField.name}(in)=${enumField.values!.slice(0, 2).join(",")}`;
+                    } else if (attributes.length > 1) {
+                        const secondAttr = attributes.find(attr => attr !== stringField && attr !== attributes[0]) || attributes[1];
+                        exampleMultipleFilter = `${exampleFilter}&${secondAttr.name}(${secondAttr.operators[0]})=${secondAttr.example}`;
+                    }
+
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Filterable attributes for ${entityType} (inferred from ${schema.sampleSize} of ${schema.totalCount} entities):\n` +
+                                `${JSON.stringify(schema.attributes, null, 2)}\n\n` +
+                                `Example filter usage: '${exampleFilter}'\n\n` +
+                                `Example with multiple filters: '${exampleMultipleFilter || "Not enough attributes for multiple filter example"}'\n\n` +
+                                `Note: For text fields, the 'like' operator is recommended as it performs case-insensitive substring matching. ` +
+                                `Nested attributes are filtered with dotted names, e.g. category.id(eq)=1. ` +
+                                `Values containing & or , can be quoted, e.g. description(like)="R&D".`
+                        }]
+                    };
+                } else {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `No ${entityType} entities found to analyze. Please ensure there is at least one ${entityType} in the system.`
+                        }]
+                    };
+                }
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching ${entityType} attributes: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    //
+    // CONNECTION STATUS TOOL
+    //
+    registerTool(
+        "check-connection",
+        "Check if the current API URL and authentication are valid",
+        {},
+        READS_DATA,
+        async () => {
+            try {
+                if (!state.apiUrlSet || !state.apiBaseUrl) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: "API URL not set. Please set the API URL using the set-api-url tool."
+                        }]
+                    };
+                }
+
+                if (!state.authToken) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: "Not authenticated. Please authenticate using the authenticate tool."
+                        }]
+                    };
+                }
+
+                // Verify the connection
+                const isConnected = await verifyConnection(state);
+
+                if (isConnected) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `✅ Connection successful! The API URL and token are valid. You're ready to use the PI API.`
+                        }]
+                    };
+                } else {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: `❌ Connection failed. The token might be invalid or expired. Please try to authenticate again.`
+                        }]
+                    };
+                }
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Connection check failed: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    //
+    // API URL CONFIGURATION TOOL
+    //
+
+    // Set API URL tool
+    registerTool(
+        "set-api-url",
+        "Set the API base URL for all requests",
+        {
+            url: z.string().describe("API base URL (e.g., http://localhost:8224/pi/api/v2)")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({url}) => {
+            try {
+                // Validate URL format
+                try {
+                    new URL(url);
+                } catch (e) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: `Invalid URL format. Please provide a valid URL including protocol (http:// or https://).`
+                        }]
+                    };
+                }
+
+                // Setting a URL by hand leaves the active profile untouched
+                saveActiveProfile(state);
+                state.activeProfile = null;
+                state.credentials = null;
+
+                state.apiBaseUrl = url;
+                state.apiUrlSet = true;
+                state.connectionVerified = false;
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `API URL set to: ${url}\n\nNext step: Please authenticate to start using the API.`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error setting API URL: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    //
+    // PROFILE TOOLS
+    //
+
+    // Add profile tool
+    registerTool(
+        "add-profile",
+        "Add or replace a named connection profile (e.g. dev, staging, production)",
+        {
+            name: z.string().min(1).describe("Profile name"),
+            url: z.string().describe("API base URL (e.g., http://localhost:8224/pi/api/v2)"),
+            token: z.string().optional().describe("Optional: Authentication token for this profile"),
+            orgId: z.number().optional().describe("Optional: Default organization ID for this profile"),
+            activate: z.boolean().optional().default(false).describe("Switch to this profile after adding it")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({name, url, token, orgId, activate}) => {
+            try {
+                // Validate URL format
+                try {
+                    new URL(url);
+                } catch (e) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: `Invalid URL format. Please provide a valid URL including protocol (http:// or https://).`
+                        }]
+                    };
+                }
+
+                const replaced = name in state.profiles;
+                state.profiles[name] = {
+                    apiBaseUrl: url,
+                    authToken: token ?? null,
+                    orgId: orgId ?? null,
+                    connectionVerified: false
+                };
+
+                if (activate || state.activeProfile === name) {
+                    // Saving the live connection into the profile being replaced would undo the replacement
+                    if (state.activeProfile !== name) {
+                        saveActiveProfile(state);
+                    }
+                    activateProfile(state, name);
+                }
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Profile '${name}' ${replaced ? "replaced" : "added"} (${url}).` +
+                            (state.activeProfile === name
+                                ? `\n\nProfile '${name}' is now active. ${token ? "Use check-connection to verify the token." : "Next step: Please authenticate to start using the API."}`
+                                : `\n\nUse the use-profile tool to switch to it.`)
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error adding profile: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // List profiles tool
+    registerTool(
+        "list-profiles",
+        "List the configured connection profiles",
+        {},
+        READS_DATA,
+        async () => {
+            try {
+                saveActiveProfile(state);
+
+                const profiles = Object.entries(state.profiles).map(([name, profile]) => ({
+                    name,
+                    active: name === state.activeProfile,
+                    apiUrl: profile.apiBaseUrl,
+                    authentication: profile.authToken ? "Token present" : "Not authenticated",
+                    orgId: profile.orgId,
+                    verified: profile.connectionVerified
+                }));
+
+                if (profiles.length === 0) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: "No profiles configured. Use the add-profile tool to add one."
+                        }]
+                    };
+                }
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Profiles:\n${JSON.stringify(profiles, null, 2)}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error listing profiles: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Use profile tool
+    registerTool(
+        "use-profile",
+        "Switch to a named connection profile, keeping its own URL, token and organization ID",
+        {
+            name: z.string().describe("Profile name")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({name}) => {
+            try {
+                if (!state.profiles[name]) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: `Profile '${name}' not found. Use the list-profiles tool to see available profiles.`
+                        }]
+                    };
+                }
+
+                saveActiveProfile(state);
+                activateProfile(state, name);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Switched to profile '${name}' (${state.apiBaseUrl}).\n` +
+                            `Authentication: ${state.authToken ? "Token present" : "Not authenticated"}\n` +
+                            `Organization: ${state.orgId !== null ? state.orgId : "Not set"}\n` +
+                            `Connection Status: ${state.connectionVerified ? "Verified" : "Not verified - use check-connection or authenticate"}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error switching profile: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Remove profile tool
+    registerTool(
+        "remove-profile",
+        "Remove a named connection profile",
+        {
+            name: z.string().describe("Profile name")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({name}) => {
+            try {
+                if (!state.profiles[name]) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: `Profile '${name}' not found. Use the list-profiles tool to see available profiles.`
+                        }]
+                    };
+                }
+
+                delete state.profiles[name];
+
+                // The current connection stays usable, it is just no longer tied to a profile
+                if (state.activeProfile === name) {
+                    state.activeProfile = null;
+                }
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Profile '${name}' removed.`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error removing profile: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    //
+    // AUTHENTICATION TOOLS
+    //
+
+    // Authentication guide tool
+    registerTool(
+        "authenticate",
+        "Guide for authenticating with the PI API",
+        {},
+        CHANGES_LOCAL_STATE,
+        async () => {
+            try {
+                // Check if already authenticated successfully
+                if (state.authToken && await verifyConnection(state)) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: "✅ You are already authenticated and your token is valid. You can use the API without further authentication."
+                        }]
+                    };
+                }
+
+                // Check if API URL is set
+                if (!state.apiUrlSet) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: "Authentication options:\n\n" +
+                            "1. If you have a token (strongly preferred):\n" +
+                            "   - Use the keep-session-alive tool with your token\n" +
+                            "   - This will verify and set your token in one step\n\n" +
+                            "2. If you don't have a token (last resort):\n" +
+                            "   - Use the authenticate-with-credentials tool\n" +
+                            "   - Format: authenticate-with-credentials with \"username password\""
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error during authentication guide: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Keep token alive tool - Enhanced to support token provisioning
+    registerTool(
+        "keep-session-alive",
+        "Verify and refresh the current authentication token (also used for token-based authentication)",
+        {
+            token: z.string().optional().describe("Optional: Provide a token to use for authentication")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({token}) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
+
+                // If a token is provided, use it instead of the current one
+                const originalToken = state.authToken;
+                if (token) {
+                    state.authToken = token;
+                    logInfo("Token provided via keep-session-alive tool");
+                }
+
+                if (!state.authToken) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "No token available. Please provide a token or authenticate with credentials."
+                        }]
+                    };
+                }
+
+                try {
+                    // Try to keep the session alive - a newly provided token is checked as-is, without re-authentication
+                    await authenticatedRequest(state, "/tokens/keepAlive", "POST", null, {}, !token);
+                    state.connectionVerified = true;
+
+                    // If we got here, the token is valid
+                    return {
+                        content: [{
+                            type: "text",
+                            text: token
+                                ? "✅ Token validated and set successfully. You are now authenticated."
+                                : "✅ Session kept alive successfully. Your token is valid."
+                        }]
+                    };
+                } catch (error) {
+                    // If validation fails and we were using a provided token, restore the original
+                    if (token) {
+                        state.authToken = originalToken;
+                    }
+
+                    state.connectionVerified = false;
+
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: token
+                                ? `❌ The provided token is invalid or expired: ${getErrorMessage(error)}\nPlease try with another token or use authenticate-with-credentials.`
+                                : `❌ Your session token is invalid or expired: ${getErrorMessage(error)}\nPlease authenticate again.`
+                        }]
+                    };
+                }
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error keeping session alive: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Authentication with credentials tool
+    registerTool(
+        "authenticate-with-credentials",
+        "Authenticate with the PI API using username and password (last resort option)",
+        {
+            credentials: z.string().describe("Username and password as 'username password'"),
+            rememberCredentials: z.boolean().optional().default(false).describe("Keep the credentials in memory so an expired token can be re-acquired automatically")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({credentials, rememberCredentials}) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
+
+                // Parse credentials - simple space separation
+                const parts = credentials.trim().split(/\s+/);
+
+                if (parts.length < 2) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "Invalid credentials format. Please provide as 'username password'"
+                        }]
+                    };
+                }
+
+                // First part is username, rest is considered password (in case password has spaces)
+                const username = parts[0];
+                const password = parts.slice(1).join(' ');
+
+                if (!username || !password) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "Both username and password are required. Please provide as 'username password'"
+                        }]
+                    };
+                }
+
+                // Authenticate with the credentials
+                try {
+                    state.authToken = await requestToken(state, username, password);
+                    state.connectionVerified = true;
+                } catch (error) {
+                    return {
+                        isError: true,
+                        content: [{type: "text", text: `Authentication failed: ${getErrorMessage(error)}`}]
+                    };
+                }
+
+                // Keep credentials in memory only when the user opts in
+                state.credentials = rememberCredentials ? {username, password} : null;
+                recordAuthEvent(state, `Authenticated with credentials${rememberCredentials ? " (kept in memory for automatic re-authentication)" : ""}`);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: "✅ Authentication successful. You can now use other tools and resources."
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error authenticating: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Logout tool
+    registerTool(
+        "logout",
+        "Invalidate the current token and end the session",
+        {},
+        ENDS_SESSION,
+        audited("logout", async () => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
+
+                if (!state.authToken) {
+                    return {
+                        isError: true,
+                        content: [{type: "text", text: "Not authenticated yet. No need to logout."}]
+                    };
+                }
+
+                await authenticatedRequest(state, "/tokens/invalidate", "POST", null, {}, false);
+                state.authToken = null;
+                state.credentials = null;
+                state.connectionVerified = false;
+                clearCache(state.responseCache);
+                recordAuthEvent(state, "Logged out");
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: "Logged out successfully. Token invalidated."
+                    }]
+                };
+            } catch (error) {
+                state.authToken = null; // Force logout even if API call fails
+                state.credentials = null;
+                state.connectionVerified = false;
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error during logout: ${getErrorMessage(error)}. Token cleared locally.`}]
+                };
+            }
+        })
+    );
+
+    // Set organization ID tool
+    registerTool(
+        "set-organization",
+        "Set the organization ID for subsequent requests",
+        {
+            orgId: z.number().describe("Organization ID")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({orgId: newOrgId}) => {
+            try {
+                state.orgId = newOrgId;
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Organization ID set to ${newOrgId}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error setting organization ID: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    //
+    // CATEGORY TOOLS
+    //
+
+    // List Categories tool (enhanced for better filter support)
+    registerTool(
+        "list-categories",
+        "List all categories with filtering support",
+        {
+            filter: z.string().optional().describe("Filter criteria in the format 'fieldName(operator)=value'. Multiple filters can be combined with & (e.g., 'description(like)=dashboard&orgId(eq)=1'). Available operators: eq, ne, gt, lt, ge, le, like, nlike, in (comma-separated list), between (two comma-separated values), isnull (no value). Quote values containing & or , (e.g., description(like)=\"a&b\") or escape them with a backslash. Use get-filterable-attributes tool to see available fields."),
+            page: z.number().optional().default(1).describe("Page number for pagination"),
+            pageSize: z.number().optional().default(20).describe("Number of items per page"),
+            fetchAll: z.boolean().optional().default(false).describe("Follow all pages and return one merged list with a total count (page is ignored)"),
+            maxItems: z.number().optional().default(DEFAULT_MAX_ITEMS).describe("Maximum number of items to return when fetchAll is set"),
+            ...OUTPUT_OPTIONS
+        },
+        READS_DATA,
+        async ({filter, page, pageSize, fetchAll, maxItems, fields, format, maxChars}, extra) => {
+            try {
+                let queryParams: Record<string, string> = {
+                    page: page.toString(),
+                    pageSize: pageSize.toString()
+                };
+
+                // Parse and add filter parameters
+                if (filter) {
+                    const filterParams = await buildFilterParams(state, "category", filter);
+                    queryParams = {...queryParams, ...filterParams};
+                }
+
+                if (fetchAll) {
+                    const result = await fetchAllPages(state, "/categories", queryParams, pageSize, maxItems, progressNotifier(extra, "Fetching categories"));
+
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Categories retrieved successfully (${result.content.length} of ${result.totalCount} from ${result.pagesFetched} page(s)` +
+                                `${result.truncated ? ", stopped at maxItems" : ""}):\n` +
+                                formatOutput(result, {fields, format, maxChars}, shown => `To continue, call again without fetchAll using page=2 and pageSize=${shown}.`)
+                        }]
+                    };
+                }
+
+                const categories = await authenticatedRequest(state, "/categories", "GET", null, queryParams);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Categories retrieved successfully:\n${formatOutput(categories, {fields, format, maxChars}, pageContinuation(page, pageSize))}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching categories: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Get Category By ID tool
+    registerTool(
+        "get-category",
+        "Get a category by ID",
+        {
+            id: z.number().describe("Category ID"),
+            ...OUTPUT_OPTIONS
+        },
+        READS_DATA,
+        async ({id, fields, format, maxChars}) => {
+            try {
+                const category = await authenticatedRequest(state, `/categories/${id}`);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category details:\n${formatOutput(category, {fields, format, maxChars})}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching category: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Create Category tool
+    registerTool(
+        "create-category",
+        "Create a new category",
+        {
+            description: z.string().describe("Unique name of a category"),
+            orgId: z.number().describe("Organization ID"),
+            label: z.string().optional().describe("Alternative text for the category"),
+            helpText: z.string().optional().describe("Help text to describe the category"),
+            categoryObjectsPosition: z.enum(["RIGHT", "TOP"]).optional().describe("Position of category objects panel"),
+            cascadeFilters: z.boolean().optional().describe("Enable cascading filters")
+        },
+        CREATES_DATA,
+        audited("create-category", async ({description, orgId, label, helpText, categoryObjectsPosition, cascadeFilters}) => {
+            try {
+                const payload: any = {
+                    description,
+                    orgId
+                };
+
+                if (label !== undefined) payload.label = label;
+                if (helpText !== undefined) payload.helpText = helpText;
+                if (categoryObjectsPosition !== undefined) payload.categoryObjectsPosition = categoryObjectsPosition;
+                if (cascadeFilters !== undefined) payload.cascadeFilters = cascadeFilters;
+
+                const result = await authenticatedRequest(state, "/categories", "POST", payload);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category created successfully:\n${JSON.stringify(result, null, 2)}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error creating category: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Update Category tool
+    registerTool(
+        "update-category",
+        "Update an existing category",
+        {
+            id: z.number().describe("Category ID"),
+            description: z.string().optional().describe("Unique name of a category"),
+            label: z.string().optional().describe("Alternative text for the category"),
+            helpText: z.string().optional().describe("Help text to describe the category"),
+            categoryObjectsPosition: z.enum(["RIGHT", "TOP"]).optional().describe("Position of category objects panel"),
+            cascadeFilters: z.boolean().optional().describe("Enable cascading filters")
+        },
+        CHANGES_DATA,
+        audited("update-category", async ({id, description, label, helpText, categoryObjectsPosition, cascadeFilters}) => {
+            try {
+                const payload: any = {};
+
+                if (description !== undefined) payload.description = description;
+                if (label !== undefined) payload.label = label;
+                if (helpText !== undefined) payload.helpText = helpText;
+                if (categoryObjectsPosition !== undefined) payload.categoryObjectsPosition = categoryObjectsPosition;
+                if (cascadeFilters !== undefined) payload.cascadeFilters = cascadeFilters;
+
+                const result = await authenticatedRequest(state, `/categories/${id}`, "PUT", payload);
+
+                return {
+                    content: [{
                         type: "text",
-                        text: "✅ You are already authenticated and your token is valid. You can use the API without further authentication."
+                        text: `Category updated successfully:\n${JSON.stringify(result, null, 2)}`
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error updating category: ${getErrorMessage(error)}`}]
+                };
             }
+        })
+    );
+
+    // Delete Category tool
+    registerTool(
+        "delete-category",
+        "Delete a category",
+        {
+            id: z.number().describe("Category ID")
+        },
+        CHANGES_DATA,
+        audited("delete-category", async ({id}) => {
+            try {
+                await authenticatedRequest(state, `/categories/${id}`, "DELETE");
 
-            // Check if API URL is set
-            if (!apiUrlSet) {
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category with ID ${id} successfully deleted.`
+                    }]
+                };
+            } catch (error) {
                 return {
                     isError: true,
+                    content: [{type: "text", text: `Error deleting category: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // List Category Objects tool
+    registerTool(
+        "list-category-objects",
+        "List all objects for a specific category",
+        {
+            categoryId: z.number().describe("Category ID"),
+            ...OUTPUT_OPTIONS
+        },
+        READS_DATA,
+        async ({categoryId, fields, format, maxChars}) => {
+            try {
+                const categoryObjects = await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects`);
+
+                return {
                     content: [{
                         type: "text",
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: `Category objects retrieved successfully:\n${formatOutput(categoryObjects, {fields, format, maxChars})}`
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching category objects: ${getErrorMessage(error)}`}]
+                };
             }
+        }
+    );
+
+    // Get Category Object tool
+    registerTool(
+        "get-category-object",
+        "Get a single object of a category by ID",
+        {
+            categoryId: z.number().describe("Category ID"),
+            id: z.number().describe("Category object ID")
+        },
+        READS_DATA,
+        async ({categoryId, id}) => {
+            try {
+                const categoryObject = await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects/${id}`);
 
-            return {
-                content: [{
-                    type: "text",
-                    text: "Authentication options:\n\n" +
-                        "1. If you have a token (strongly preferred):\n" +
-                        "   - Use the keep-session-alive tool with your token\n" +
-                        "   - This will verify and set your token in one step\n\n" +
-                        "2. If you don't have a token (last resort):\n" +
-                        "   - Use the authenticate-with-credentials tool\n" +
-                        "   - Format: authenticate-with-credentials with \"username password\""
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error during authentication guide: ${getErrorMessage(error)}`}]
-            };
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category object details:\n${JSON.stringify(categoryObject, null, 2)}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching category object: ${getErrorMessage(error)}`}]
+                };
+            }
         }
-    }
-);
+    );
+
+    // Create Category Object tool
+    registerTool(
+        "create-category-object",
+        "Create a new object (e.g. a filter) in a category",
+        {
+            categoryId: z.number().describe("Category ID"),
+            description: z.string().min(1).describe("Name of the category object"),
+            label: z.string().optional().describe("Alternative text for the category object"),
+            helpText: z.string().optional().describe("Help text to describe the category object"),
+            position: z.number().int().min(1).optional().describe("Position of the object within the category (1 = first)"),
+            attributes: z.record(z.any()).optional().describe("Additional category object attributes supported by the PI API")
+        },
+        CREATES_DATA,
+        audited("create-category-object", async ({categoryId, description, label, helpText, position, attributes}) => {
+            try {
+                const payload: any = {
+                    ...(attributes || {}),
+                    description
+                };
 
-// Keep token alive tool - Enhanced to support token provisioning
-server.tool(
-    "keep-session-alive",
-    "Verify and refresh the current authentication token (also used for token-based authentication)",
-    {
-        token: z.string().optional().describe("Optional: Provide a token to use for authentication")
-    },
-    async ({token}) => {
-        try {
-            if (!apiUrlSet) {
+                if (label !== undefined) payload.label = label;
+                if (helpText !== undefined) payload.helpText = helpText;
+                if (position !== undefined) payload.position = position;
+
+                const result = await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects`, "POST", payload);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category object created successfully:\n${JSON.stringify(result, null, 2)}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error creating category object: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Update Category Object tool
+    registerTool(
+        "update-category-object",
+        "Update an existing object of a category",
+        {
+            categoryId: z.number().describe("Category ID"),
+            id: z.number().describe("Category object ID"),
+            description: z.string().min(1).optional().describe("Name of the category object"),
+            label: z.string().optional().describe("Alternative text for the category object"),
+            helpText: z.string().optional().describe("Help text to describe the category object"),
+            position: z.number().int().min(1).optional().describe("Position of the object within the category (1 = first)"),
+            attributes: z.record(z.any()).optional().describe("Additional category object attributes supported by the PI API")
+        },
+        CHANGES_DATA,
+        audited("update-category-object", async ({categoryId, id, description, label, helpText, position, attributes}) => {
+            try {
+                const payload: any = {...(attributes || {})};
+
+                if (description !== undefined) payload.description = description;
+                if (label !== undefined) payload.label = label;
+                if (helpText !== undefined) payload.helpText = helpText;
+                if (position !== undefined) payload.position = position;
+
+                if (Object.keys(payload).length === 0) {
+                    return {
+                        isError: true,
+                        content: [{type: "text", text: "Nothing to update. Please provide at least one field to change."}]
+                    };
+                }
+
+                const result = await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects/${id}`, "PUT", payload);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category object updated successfully:\n${JSON.stringify(result, null, 2)}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error updating category object: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Delete Category Object tool
+    registerTool(
+        "delete-category-object",
+        "Delete an object from a category",
+        {
+            categoryId: z.number().describe("Category ID"),
+            id: z.number().describe("Category object ID")
+        },
+        CHANGES_DATA,
+        audited("delete-category-object", async ({categoryId, id}) => {
+            try {
+                await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects/${id}`, "DELETE");
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category object with ID ${id} successfully deleted from category ${categoryId}.`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error deleting category object: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Reorder Category Objects tool
+    registerTool(
+        "reorder-category-objects",
+        "Set the order of the objects in a category",
+        {
+            categoryId: z.number().describe("Category ID"),
+            orderedIds: z.array(z.number()).min(1).describe("IDs of all the category's objects, in the new order")
+        },
+        CHANGES_DATA,
+        audited("reorder-category-objects", async ({categoryId, orderedIds}) => {
+            try {
+                const existing = (await fetchAllPages(state, `/categories/${categoryId}/categoryObjects`, {}, 100, DEFAULT_MAX_ITEMS)).content;
+                const existingIds = existing.map(categoryObject => categoryObject.id);
+
+                // The new order must be a permutation of the current objects
+                const duplicates = orderedIds.filter((id, index) => orderedIds.indexOf(id) !== index);
+                const unknown = orderedIds.filter(id => !existingIds.includes(id));
+                const missing = existingIds.filter(id => !orderedIds.includes(id));
+
+                if (duplicates.length > 0 || unknown.length > 0 || missing.length > 0) {
+                    return {
+                        isError: true,
+                        content: [{
+                            type: "text",
+                            text: `Invalid order for category ${categoryId}. orderedIds must list every object exactly once.\n` +
+                                (duplicates.length > 0 ? `Duplicate IDs: ${duplicates.join(", ")}\n` : "") +
+                                (unknown.length > 0 ? `Not in this category: ${unknown.join(", ")}\n` : "") +
+                                (missing.length > 0 ? `Missing IDs: ${missing.join(", ")}\n` : "") +
+                                `Current objects: ${existingIds.join(", ")}`
+                        }]
+                    };
+                }
+
+                const results = [];
+                for (const [index, id] of orderedIds.entries()) {
+                    try {
+                        results.push(await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects/${id}`, "PUT", {position: index + 1}));
+                    } catch (error) {
+                        // The objects moved so far keep their new positions, so say which ones they are
+                        const moved = orderedIds.slice(0, index);
+                        return {
+                            isError: true,
+                            content: [{
+                                type: "text",
+                                text: `Error reordering category objects: moving object ${id} to position ${index + 1} failed: ${getErrorMessage(error)}\n` +
+                                    (moved.length > 0
+                                        ? `Category ${categoryId} is partly reordered. Already moved to positions 1-${moved.length}: ${moved.join(", ")}. ` +
+                                            `Not moved: ${orderedIds.slice(index).join(", ")}. Run the tool again with the same order to finish.`
+                                        : `No object was moved.`)
+                            }]
+                        };
+                    }
+                }
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Category objects reordered successfully:\n${JSON.stringify(results, null, 2)}`
+                    }]
+                };
+            } catch (error) {
                 return {
                     isError: true,
+                    content: [{type: "text", text: `Error reordering category objects: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    //
+    // CHART TOOLS
+    //
+
+    // List Charts tool (enhanced for better filter support)
+    registerTool(
+        "list-charts",
+        "List all charts with filtering support",
+        {
+            filter: z.string().optional().describe("Filter criteria in the format 'fieldName(operator)=value'. Multiple filters can be combined with & (e.g., 'description(like)=revenue&categoryId(eq)=5'). Available operators: eq, ne, gt, lt, ge, le, like, nlike, in (comma-separated list), between (two comma-separated values), isnull (no value). Quote values containing & or , (e.g., description(like)=\"a&b\") or escape them with a backslash. Use get-filterable-attributes tool to see available fields."),
+            page: z.number().optional().default(1).describe("Page number for pagination"),
+            pageSize: z.number().optional().default(20).describe("Number of items per page"),
+            fetchAll: z.boolean().optional().default(false).describe("Follow all pages and return one merged list with a total count (page is ignored)"),
+            maxItems: z.number().optional().default(DEFAULT_MAX_ITEMS).describe("Maximum number of items to return when fetchAll is set"),
+            ...OUTPUT_OPTIONS
+        },
+        READS_DATA,
+        async ({filter, page, pageSize, fetchAll, maxItems, fields, format, maxChars}, extra) => {
+            try {
+                let queryParams: Record<string, string> = {
+                    page: page.toString(),
+                    pageSize: pageSize.toString()
+                };
+
+                // Parse and add filter parameters
+                if (filter) {
+                    const filterParams = await buildFilterParams(state, "chart", filter);
+                    queryParams = {...queryParams, ...filterParams};
+                }
+
+                if (fetchAll) {
+                    const result = await fetchAllPages(state, "/charts", queryParams, pageSize, maxItems, progressNotifier(extra, "Fetching charts"));
+
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Charts retrieved successfully (${result.content.length} of ${result.totalCount} from ${result.pagesFetched} page(s)` +
+                                `${result.truncated ? ", stopped at maxItems" : ""}):\n` +
+                                formatOutput(result, {fields, format, maxChars}, shown => `To continue, call again without fetchAll using page=2 and pageSize=${shown}.`)
+                        }]
+                    };
+                }
+
+                const charts = await authenticatedRequest(state, "/charts", "GET", null, queryParams);
+
+                return {
                     content: [{
                         type: "text",
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: `Charts retrieved successfully:\n${formatOutput(charts, {fields, format, maxChars}, pageContinuation(page, pageSize))}`
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching charts: ${getErrorMessage(error)}`}]
+                };
             }
+        }
+    );
+
+    // Get Chart By ID tool
+    registerTool(
+        "get-chart",
+        "Get a chart by ID",
+        {
+            id: z.number().describe("Chart ID"),
+            ...OUTPUT_OPTIONS
+        },
+        READS_DATA,
+        async ({id, fields, format, maxChars}) => {
+            try {
+                const chart = await authenticatedRequest(state, `/charts/${id}`);
 
-            // If a token is provided, use it instead of the current one
-            const originalToken = authToken;
-            if (token) {
-                authToken = token;
-                logInfo("Token provided via keep-session-alive tool");
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Chart details:\n${formatOutput(chart, {fields, format, maxChars})}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error fetching chart: ${getErrorMessage(error)}`}]
+                };
             }
+        }
+    );
+
+    // Create Chart tool
+    registerTool(
+        "create-chart",
+        "Create a new chart",
+        {
+            description: z.string().describe("Name of the chart"),
+            categoryId: z.number().describe("ID of the category the chart belongs to"),
+            chartTypeId: z.number().describe("Chart type ID"),
+            anonymous: z.boolean().optional().describe("Whether the chart can be viewed anonymously"),
+            attributes: z.record(z.any()).optional().describe("Additional chart attributes supported by the PI API (see get-filterable-attributes)")
+        },
+        CREATES_DATA,
+        audited("create-chart", async ({description, categoryId, chartTypeId, anonymous, attributes}) => {
+            try {
+                const payload: any = {
+                    ...(attributes || {}),
+                    description,
+                    categoryId,
+                    chartTypeId
+                };
+
+                if (anonymous !== undefined) payload.anonymous = anonymous;
+
+                const result = await authenticatedRequest(state, "/charts", "POST", payload);
 
-            if (!authToken) {
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Chart created successfully:\n${JSON.stringify(result, null, 2)}`
+                    }]
+                };
+            } catch (error) {
                 return {
                     isError: true,
+                    content: [{type: "text", text: `Error creating chart: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Update Chart tool
+    registerTool(
+        "update-chart",
+        "Update an existing chart",
+        {
+            id: z.number().describe("Chart ID"),
+            description: z.string().optional().describe("Name of the chart"),
+            categoryId: z.number().optional().describe("ID of the category the chart belongs to"),
+            chartTypeId: z.number().optional().describe("Chart type ID"),
+            anonymous: z.boolean().optional().describe("Whether the chart can be viewed anonymously"),
+            attributes: z.record(z.any()).optional().describe("Additional chart attributes supported by the PI API (see get-filterable-attributes)")
+        },
+        CHANGES_DATA,
+        audited("update-chart", async ({id, description, categoryId, chartTypeId, anonymous, attributes}) => {
+            try {
+                const payload: any = {...(attributes || {})};
+
+                if (description !== undefined) payload.description = description;
+                if (categoryId !== undefined) payload.categoryId = categoryId;
+                if (chartTypeId !== undefined) payload.chartTypeId = chartTypeId;
+                if (anonymous !== undefined) payload.anonymous = anonymous;
+
+                const result = await authenticatedRequest(state, `/charts/${id}`, "PUT", payload);
+
+                return {
                     content: [{
                         type: "text",
-                        text: "No token available. Please provide a token or authenticate with credentials."
+                        text: `Chart updated successfully:\n${JSON.stringify(result, null, 2)}`
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error updating chart: ${getErrorMessage(error)}`}]
+                };
             }
+        })
+    );
+
+    // Clone Chart tool
+    registerTool(
+        "clone-chart",
+        "Copy an existing chart into a target category, optionally overriding fields, and return the new chart ID",
+        {
+            id: z.number().describe("ID of the chart to clone"),
+            targetCategoryId: z.number().describe("ID of the category to create the copy in"),
+            description: z.string().optional().describe("Name of the copy (defaults to the original name with ' (copy)' appended)"),
+            chartTypeId: z.number().optional().describe("Chart type ID for the copy"),
+            anonymous: z.boolean().optional().describe("Whether the copy can be viewed anonymously"),
+            attributes: z.record(z.any()).optional().describe("Additional chart attributes to override on the copy")
+        },
+        CREATES_DATA,
+        audited("clone-chart", async ({id, targetCategoryId, description, chartTypeId, anonymous, attributes}) => {
+            try {
+                const original = await authenticatedRequest(state, `/charts/${id}`);
+
+                if (!original || typeof original !== 'object') {
+                    return {
+                        isError: true,
+                        content: [{type: "text", text: `Error cloning chart: chart ${id} could not be read`}]
+                    };
+                }
+
+                const payload: any = Object.assign(withoutReadOnlyFields(original), attributes || {});
+                moveToCategory(payload, targetCategoryId);
+                payload.description = description ?? `${original.description} (copy)`;
+                if (chartTypeId !== undefined) payload.chartTypeId = chartTypeId;
+                if (anonymous !== undefined) payload.anonymous = anonymous;
+
+                const result = await authenticatedRequest(state, "/charts", "POST", payload);
+                const newId = result && typeof result === 'object' && 'id' in result ? result.id : "unknown";
 
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Chart ${id} cloned successfully into category ${targetCategoryId}. New chart ID: ${newId}\n${JSON.stringify(result, null, 2)}`
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error cloning chart: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Delete Chart tool
+    registerTool(
+        "delete-chart",
+        "Delete a chart",
+        {
+            id: z.number().describe("Chart ID")
+        },
+        CHANGES_DATA,
+        audited("delete-chart", async ({id}) => {
             try {
-                // Try to keep the session alive
-                await authenticatedRequest("/tokens/keepAlive", "POST");
-                connectionVerified = true;
+                await authenticatedRequest(state, `/charts/${id}`, "DELETE");
 
-                // If we got here, the token is valid
                 return {
                     content: [{
                         type: "text",
-                        text: token
-                            ? "✅ Token validated and set successfully. You are now authenticated."
-                            : "✅ Session kept alive successfully. Your token is valid."
+                        text: `Chart with ID ${id} successfully deleted.`
                     }]
                 };
             } catch (error) {
-                // If validation fails and we were using a provided token, restore the original
-                if (token) {
-                    authToken = originalToken;
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error deleting chart: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Export Chart tool
+    registerTool(
+        "export-chart",
+        "Export a chart in any format the PI API supports. Images are returned inline, other formats as an embedded resource, and the export can optionally be saved to a file",
+        {
+            id: z.number().describe("Chart ID"),
+            format: z.string().regex(/^[a-z0-9]+$/i, "Format must be a plain format name such as csv or png")
+                .describe("Export format supported by the PI API, e.g. json, csv, xlsx, pdf or png"),
+            outputPath: z.string().optional().describe("Optional: File path, relative to the export directory, to also save the export to")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({id, format, outputPath}) => {
+            try {
+                const exportFormat = format.toLowerCase();
+                const result = await authenticatedRequest(state, `/charts/${id}/${exportFormat}`);
+                const chartExport = toChartExport(result, exportFormat);
+                const uri = `charts://${id}/export/${exportFormat}`;
+
+                let summary = `Chart exported successfully as ${format.toUpperCase()}.\nContent type: ${chartExport.mimeType}`;
+                if (outputPath) {
+                    const savedPath = await saveChartExport(id, exportFormat, chartExport, outputPath);
+                    summary += `\nSaved to: ${savedPath}`;
+                }
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: summary
+                        },
+                        chartExportContent(uri, chartExport)
+                    ]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error exporting chart: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Aggregate Chart Data tool
+    registerTool(
+        "aggregate-chart-data",
+        "Aggregate a chart's data on the server (filter, group by, sum/avg/min/max/count, sort, top-N) and return only the compact result table",
+        {
+            id: z.number().describe("Chart ID"),
+            source: z.enum(["json", "csv"]).optional().default("json").describe("Export to read the data from (default: json)"),
+            filter: z.string().optional().describe("Optional: Row filter using the filter syntax, e.g. region(in)=North,South&amount(gt)=10"),
+            groupBy: z.array(z.string()).optional().default([]).describe("Optional: Columns to group by. Without it, the whole table is aggregated into one row"),
+            metrics: z.array(z.object({
+                op: z.enum(AGGREGATE_OPERATIONS).describe("Aggregation to apply"),
+                field: z.string().optional().describe("Column to aggregate. Required for everything except count")
+            })).optional().default([{op: "count"}]).describe("Optional: Aggregations to compute per group (default: count of rows)"),
+            sortBy: z.string().optional().describe("Optional: Result column to sort by, e.g. sum_claims"),
+            order: z.enum(["asc", "desc"]).optional().default("desc").describe("Sort order when sortBy is set (default: desc)"),
+            limit: z.number().int().min(1).optional().describe("Optional: Only return the first N result rows (top-N)")
+        },
+        READS_DATA,
+        async ({id, source, filter, groupBy, metrics, sortBy, order, limit}) => {
+            try {
+                const terms = parseFilterTerms(filter || null);
+                const missingField = metrics.find(metric => metric.op !== "count" && !metric.field);
+                if (missingField) {
+                    throw new Error(`The ${missingField.op} metric needs a field`);
+                }
+
+                const rows = extractChartRows(await authenticatedRequest(state, `/charts/${id}/${source}`));
+
+                // Catch typos in column names instead of silently returning empty groups
+                const columns = new Set(rows.flatMap(row => Object.keys(row)));
+                const referenced = [...terms.map(term => term.field), ...groupBy, ...metrics.flatMap(metric => metric.field ? [metric.field] : [])];
+                const unknown = referenced.filter(field => !columns.has(field) && !rows.some(row => getRowValue(row, field) !== undefined));
+                if (rows.length > 0 && unknown.length > 0) {
+                    throw new Error(`Unknown column(s): ${[...new Set(unknown)].join(", ")}. Available columns: ${[...columns].join(", ")}`);
+                }
+
+                const matching = rows.filter(row => terms.every(term => rowMatchesFilterTerm(row, term)));
+                let results = aggregateRows(matching, groupBy, metrics);
+                const resultColumns = [...groupBy, ...metrics.map(metricColumn)];
+
+                if (sortBy) {
+                    if (!resultColumns.includes(sortBy)) {
+                        throw new Error(`Cannot sort by '${sortBy}'. Result columns: ${resultColumns.join(", ")}`);
+                    }
+                    const direction = order === "asc" ? 1 : -1;
+                    results = results.sort((a, b) => {
+                        if (a[sortBy] === b[sortBy]) return 0;
+                        if (a[sortBy] === null) return 1;
+                        if (b[sortBy] === null) return -1;
+                        return (a[sortBy] < b[sortBy] ? -1 : 1) * direction;
+                    });
                 }
 
-                connectionVerified = false;
+                const totalGroups = results.length;
+                if (limit) {
+                    results = results.slice(0, limit);
+                }
 
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Chart ${id}: ${matching.length} of ${rows.length} rows matched, ${totalGroups} group(s)` +
+                            (results.length < totalGroups ? `, showing the first ${results.length}` : "") +
+                            `:\n\n${formatTable(resultColumns, results)}`
+                    }]
+                };
+            } catch (error) {
                 return {
                     isError: true,
+                    content: [{type: "text", text: `Error aggregating chart data: ${getErrorMessage(error)}`}]
+                };
+            }
+        }
+    );
+
+    // Diff Charts tool
+    registerTool(
+        "diff-charts",
+        "Compare the data of two charts: rows are aligned on key columns and added/removed rows, per-measure deltas and schema differences are reported",
+        {
+            chartId1: z.number().describe("ID of the first (before) chart"),
+            chartId2: z.number().describe("ID of the second (after) chart"),
+            source: z.enum(["json", "csv"]).optional().default("json").describe("Export to read the data from (default: json)"),
+            keyColumns: z.array(z.string()).optional().describe("Optional: Columns that identify a row. Detected from the non-numeric columns when omitted"),
+            maxRows: z.number().int().min(1).optional().default(50).describe("Maximum number of rows listed per section (default: 50)")
+        },
+        READS_DATA,
+        async ({chartId1, chartId2, source, keyColumns, maxRows}) => {
+            try {
+                const [data1, data2] = await Promise.all([
+                    authenticatedRequest(state, `/charts/${chartId1}/${source}`),
+                    authenticatedRequest(state, `/charts/${chartId2}/${source}`)
+                ]);
+                const diff = diffChartRows(extractChartRows(data1), extractChartRows(data2), keyColumns);
+
+                return {
                     content: [{
                         type: "text",
-                        text: token
-                            ? `❌ The provided token is invalid or expired: ${getErrorMessage(error)}\nPlease try with another token or use authenticate-with-credentials.`
-                            : `❌ Your session token is invalid or expired: ${getErrorMessage(error)}\nPlease authenticate again.`
+                        text: formatChartDiff(chartId1, chartId2, diff, maxRows)
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error comparing charts: ${getErrorMessage(error)}`}]
+                };
             }
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error keeping session alive: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
+    );
+
+    //
+    // BULK TOOLS
+    //
+
+    // Bulk Delete Charts tool
+    registerTool(
+        "bulk-delete-charts",
+        "Delete many charts selected by ID list or filter. Runs as a dry run unless dryRun is false",
+        {
+            ids: z.array(z.number()).optional().describe("IDs of the charts to delete"),
+            filter: z.string().optional().describe("Filter selecting the charts to delete, in the same format as list-charts (used when ids is not given)"),
+            dryRun: z.boolean().optional().default(true).describe("Only report what would change (default). Set to false to apply the changes")
+        },
+        CHANGES_DATA,
+        audited("bulk-delete-charts", async ({ids, filter, dryRun}) => {
+            try {
+                const {targets, unresolved, truncated} = await resolveBulkTargets(state, "chart", ids, filter);
+
+                const results = dryRun
+                    ? targets.map((chart): BulkItemResult => ({id: chart.id, description: chart.description ?? null, status: "would delete"}))
+                    : await runBulkOperation(targets, "deleted", async (chart) => {
+                        await authenticatedRequest(state, `/charts/${chart.id}`, "DELETE");
+                    });
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: formatBulkReport(dryRun ? "Charts that would be deleted" : "Bulk chart deletion", dryRun, [...results, ...unresolved], truncated)
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error deleting charts: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Bulk Delete Categories tool
+    registerTool(
+        "bulk-delete-categories",
+        "Delete many categories selected by ID list or filter. Runs as a dry run unless dryRun is false",
+        {
+            ids: z.array(z.number()).optional().describe("IDs of the categories to delete"),
+            filter: z.string().optional().describe("Filter selecting the categories to delete, in the same format as list-categories (used when ids is not given)"),
+            dryRun: z.boolean().optional().default(true).describe("Only report what would change (default). Set to false to apply the changes")
+        },
+        CHANGES_DATA,
+        audited("bulk-delete-categories", async ({ids, filter, dryRun}) => {
+            try {
+                const {targets, unresolved, truncated} = await resolveBulkTargets(state, "category", ids, filter);
+
+                const results = dryRun
+                    ? targets.map((category): BulkItemResult => ({id: category.id, description: category.description ?? null, status: "would delete"}))
+                    : await runBulkOperation(targets, "deleted", async (category) => {
+                        await authenticatedRequest(state, `/categories/${category.id}`, "DELETE");
+                    });
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: formatBulkReport(dryRun ? "Categories that would be deleted" : "Bulk category deletion", dryRun, [...results, ...unresolved], truncated)
+                    }]
+                };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error deleting categories: ${getErrorMessage(error)}`}]
+                };
+            }
+        })
+    );
+
+    // Bulk Update Categories tool
+    registerTool(
+        "bulk-update-categories",
+        "Apply the same changes to many categories selected by ID list or filter. Runs as a dry run unless dryRun is false",
+        {
+            ids: z.array(z.number()).optional().describe("IDs of the categories to update"),
+            filter: z.string().optional().describe("Filter selecting the categories to update, in the same format as list-categories (used when ids is not given)"),
+            dryRun: z.boolean().optional().default(true).describe("Only report what would change (default). Set to false to apply the changes"),
+            label: z.string().optional().describe("Alternative text for the categories"),
+            helpText: z.string().optional().describe("Help text to describe the categories"),
+            categoryObjectsPosition: z.enum(["RIGHT", "TOP"]).optional().describe("Position of category objects panel"),
+            cascadeFilters: z.boolean().optional().describe("Enable cascading filters")
+        },
+        CHANGES_DATA,
+        audited("bulk-update-categories", async ({ids, filter, dryRun, label, helpText, categoryObjectsPosition, cascadeFilters}) => {
+            try {
+                const payload: any = {};
+
+                if (label !== undefined) payload.label = label;
+                if (helpText !== undefined) payload.helpText = helpText;
+                if (categoryObjectsPosition !== undefined) payload.categoryObjectsPosition = categoryObjectsPosition;
+                if (cascadeFilters !== undefined) payload.cascadeFilters = cascadeFilters;
+
+                if (Object.keys(payload).length === 0) {
+                    return {
+                        isError: true,
+                        content: [{type: "text", text: "Nothing to update. Please provide at least one field to change."}]
+                    };
+                }
+
+                const {targets, unresolved, truncated} = await resolveBulkTargets(state, "category", ids, filter);
+
+                // Only send the fields that actually differ for each category
+                const changesFor = (category: any) => {
+                    const changes: Record<string, {from: any; to: any}> = {};
+                    for (const [field, value] of Object.entries(payload)) {
+                        if (category[field] !== value) {
+                            changes[field] = {from: category[field] ?? null, to: value};
+                        }
+                    }
+                    return changes;
+                };
+
+                const changed = targets.filter(category => Object.keys(changesFor(category)).length > 0);
+                const unchanged = targets
+                    .filter(category => !changed.includes(category))
+                    .map((category): BulkItemResult => ({id: category.id, description: category.description ?? null, status: "unchanged"}));
+
+                let results: BulkItemResult[];
+                if (dryRun) {
+                    results = changed.map((category): BulkItemResult => ({
+                        id: category.id,
+                        description: category.description ?? null,
+                        status: "would update",
+                        changes: changesFor(category)
+                    }));
+                } else {
+                    results = await runBulkOperation(changed, "updated", async (category) => {
+                        const changes = changesFor(category);
+                        const categoryPayload: any = {};
+                        for (const [field, change] of Object.entries(changes)) {
+                            categoryPayload[field] = change.to;
+                        }
+                        await authenticatedRequest(state, `/categories/${category.id}`, "PUT", categoryPayload);
+                    });
+                    for (const result of results) {
+                        const category = changed.find(candidate => candidate.id === result.id);
+                        result.changes = changesFor(category);
+                    }
+                }
 
-// Authentication with credentials tool
-server.tool(
-    "authenticate-with-credentials",
-    "Authenticate with the PI API using username and password (last resort option)",
-    {
-        credentials: z.string().describe("Username and password as 'username password'")
-    },
-    async ({credentials}) => {
-        try {
-            if (!apiUrlSet) {
                 return {
-                    isError: true,
                     content: [{
                         type: "text",
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: formatBulkReport(dryRun ? "Categories that would be updated" : "Bulk category update", dryRun, [...results, ...unchanged, ...unresolved], truncated)
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error updating categories: ${getErrorMessage(error)}`}]
+                };
             }
+        })
+    );
+
+    //
+    // BACKUP TOOLS
+    //
+
+    // Backup dashboard tool
+    registerTool(
+        "backup-dashboard",
+        "Save every category, category object and chart of the current organization to a versioned JSON archive in the backup directory",
+        {
+            fileName: z.string().optional().describe("Optional: Archive file name, relative to the backup directory (defaults to dashboard-<orgId>-<timestamp>.json)")
+        },
+        CHANGES_LOCAL_STATE,
+        async ({fileName}, extra) => {
+            try {
+                const archive = await createBackupArchive(state, progressNotifier(extra, "Backing up category objects"));
+                const name = fileName || `dashboard-${state.orgId ?? "default"}-${archive.manifest.createdAt.replace(/[:.]/g, "-")}.json`;
+                const target = resolveInsideDirectory(config.backupDir, name, "fileName");
 
-            // Parse credentials - simple space separation
-            const parts = credentials.trim().split(/\s+/);
+                await fs.promises.mkdir(path.dirname(target), {recursive: true});
+                await fs.promises.writeFile(target, JSON.stringify(archive, null, 2));
+                logInfo(`Saved dashboard backup to ${target}`);
 
-            if (parts.length < 2) {
                 return {
-                    isError: true,
                     content: [{
                         type: "text",
-                        text: "Invalid credentials format. Please provide as 'username password'"
+                        text: `Dashboard backed up to ${target}` +
+                            `${archive.manifest.truncated ? `\nWarning: a list had more than ${DEFAULT_MAX_ITEMS} items; only the first ${DEFAULT_MAX_ITEMS} were saved.` : ""}` +
+                            `\nManifest:\n${JSON.stringify(archive.manifest, null, 2)}`
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error backing up dashboard: ${getErrorMessage(error)}`}]
+                };
             }
+        }
+    );
+
+    // Restore dashboard tool
+    registerTool(
+        "restore-dashboard",
+        "Recreate categories, category objects and charts from a backup archive that no longer exist. Runs as a dry run unless dryRun is false",
+        {
+            archive: z.string().describe("Archive file name, relative to the backup directory"),
+            dryRun: z.boolean().optional().default(true).describe("Only report what would be recreated (default). Set to false to recreate the entities")
+        },
+        CREATES_DATA,
+        audited("restore-dashboard", async ({archive, dryRun}) => {
+            try {
+                const backup = await readBackupArchive(archive);
+                const {results, existing} = await restoreBackupArchive(state, backup, dryRun);
 
-            // First part is username, rest is considered password (in case password has spaces)
-            const username = parts[0];
-            const password = parts.slice(1).join(' ');
+                const counts: Record<string, number> = {};
+                for (const result of results) {
+                    counts[result.status] = (counts[result.status] || 0) + 1;
+                }
+                const summary = [...Object.entries(counts).map(([status, count]) => `${count} ${status}`), `${existing} already exist`].join(", ");
+
+                const {manifest} = backup;
+                const sameSource = manifest.apiUrl === state.apiBaseUrl && manifest.orgId === state.orgId;
 
-            if (!username || !password) {
                 return {
-                    isError: true,
                     content: [{
                         type: "text",
-                        text: "Both username and password are required. Please provide as 'username password'"
+                        text: `${dryRun ? "DRY RUN - nothing was changed. " : ""}Restore from ${archive} (backup of ${manifest.createdAt}): ${summary}\n` +
+                            (sameSource ? "" : `Note: the backup was taken from ${manifest.apiUrl} (organization ${manifest.orgId ?? "default"}) and is restored into ${state.apiBaseUrl} (organization ${state.orgId ?? "default"}).\n`) +
+                            (dryRun && results.length > 0 ? "Run again with dryRun set to false to recreate the missing entities.\n" : "") +
+                            `\n${JSON.stringify(results, null, 2)}`
                     }]
                 };
+            } catch (error) {
+                return {
+                    isError: true,
+                    content: [{type: "text", text: `Error restoring dashboard: ${getErrorMessage(error)}`}]
+                };
             }
+        })
+    );
+
+    // Promote entities tool
+    registerTool(
+        "promote-entities",
+        "Copy categories and their charts from one environment (profile) to another. Existing targets are matched by description and updated instead of duplicated. Only shows the plan unless apply is true",
+        {
+            categoryIds: z.array(z.number()).min(1).describe("IDs of the categories to promote, in the source environment"),
+            targetProfile: z.string().optional().describe("Profile of the environment to promote to"),
+            targetApiUrl: z.string().url().optional().describe("Optional: API URL of the environment to promote to, instead of targetProfile"),
+            targetToken: z.string().optional().describe("Optional: Token for targetApiUrl"),
+            sourceProfile: z.string().optional().describe("Optional: Profile to promote from (defaults to the current connection)"),
+            includeCharts: z.boolean().optional().default(true).describe("Also promote the charts of the categories (default: true)"),
+            apply: z.boolean().optional().default(false).describe("Apply the plan. By default only the plan is shown")
+        },
+        CHANGES_DATA,
+        audited("promote-entities", async ({categoryIds, targetProfile, targetApiUrl, targetToken, sourceProfile, includeCharts, apply}) => {
+            try {
+                if (targetProfile ? targetApiUrl || targetToken : !(targetApiUrl && targetToken)) {
+                    throw new Error("Pass either targetProfile, or targetApiUrl together with targetToken");
+                }
+                const source = sourceProfile ? connectionForProfile(state, sourceProfile) : state;
+                const target = targetProfile ? connectionForProfile(state, targetProfile) : connectionForApiUrl(targetApiUrl!, targetToken!);
+                if (!source.apiUrlSet || !source.authToken) {
+                    throw new Error("The source connection is not set up. Set the API URL and authenticate, or pass sourceProfile.");
+                }
+                if (source.apiBaseUrl === target.apiBaseUrl && source.orgId === target.orgId) {
+                    throw new Error("Source and target are the same environment");
+                }
 
-            // Authenticate with the credentials
-            const credentialsBase64 = Buffer.from(`${username}:${password}`).toString("base64");
+                const plan = await planPromotion(source, target, categoryIds, includeCharts);
+                if (apply) {
+                    await applyPromotion(target, plan);
+                }
 
-            const response = await fetch(`${API_BASE_URL}/tokens`, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `basic ${credentialsBase64}`
+                const steps = [...plan.categories, ...plan.charts].map(({step}) => step);
+                const counts: Record<string, number> = {};
+                for (const step of steps) {
+                    const key = apply ? step.status! : `to ${step.action}`;
+                    counts[key] = (counts[key] || 0) + 1;
                 }
-            });
+                const summary = Object.entries(counts).map(([key, count]) => `${count} ${key}`).join(", ") || "nothing to promote";
+                const from = `${source.apiBaseUrl} (organization ${source.orgId ?? "default"})`;
+                const to = `${target.apiBaseUrl} (organization ${target.orgId ?? "default"})`;
 
-            if (!response.ok) {
-                const errorText = await response.text();
+                return {
+                    content: [{
+                        type: "text",
+                        text: `${apply ? "Promotion" : "PLAN - nothing was changed. Promotion"} from ${from} to ${to}: ${summary}\n` +
+                            (!apply && steps.some(step => step.action !== "unchanged") ? "Run again with apply set to true to apply this plan.\n" : "") +
+                            `\n${JSON.stringify(steps, null, 2)}`
+                    }]
+                };
+            } catch (error) {
                 return {
                     isError: true,
-                    content: [{type: "text", text: `Authentication failed: ${response.status} - ${errorText}`}]
+                    content: [{type: "text", text: `Error promoting entities: ${getErrorMessage(error)}`}]
                 };
             }
+        })
+    );
+
+    //
+    // CACHE TOOLS
+    //
+
+    // Clear cache tool
+    registerTool(
+        "clear-cache",
+        "Clear cached API responses so the next requests go to the PI API",
+        {},
+        CHANGES_LOCAL_STATE,
+        async () => {
+            try {
+                const cleared = state.responseCache.entries.size;
+                clearCache(state.responseCache);
 
-            const data = await response.json();
-            if (data && typeof data === 'object' && 'token' in data && typeof data.token === 'string') {
-                authToken = data.token;
-                connectionVerified = true;
-            } else {
+                return {
+                    content: [{
+                        type: "text",
+                        text: `Cache cleared (${cleared} entries removed).`
+                    }]
+                };
+            } catch (error) {
                 return {
                     isError: true,
-                    content: [{type: "text", text: "Authentication failed: Invalid response format"}]
+                    content: [{type: "text", text: `Error clearing cache: ${getErrorMessage(error)}`}]
                 };
             }
-
-            return {
-                content: [{
-                    type: "text",
-                    text: "✅ Authentication successful. You can now use other tools and resources."
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error authenticating: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
+    );
+
+    //
+    // AUDIT TOOLS
+    //
+
+    // Query audit log tool
+    registerTool(
+        "query-audit-log",
+        "Search the audit log of changes made through this server, newest first",
+        {
+            tool: z.string().optional().describe("Optional: Only entries recorded for this tool, e.g. delete-chart"),
+            entityType: z.string().optional().describe("Optional: Only entries for this entity type (chart, category, category object, token)"),
+            entityId: z.number().optional().describe("Optional: Only entries for the entity with this ID"),
+            outcome: z.enum(["success", "failure"]).optional().describe("Optional: Only successful or only failed changes"),
+            since: z.string().optional().describe("Optional: Only entries at or after this ISO date/time, e.g. 2024-05-01 or 2024-05-01T12:00:00Z"),
+            limit: z.number().int().min(1).max(1000).optional().default(50).describe("Maximum number of entries to return (default: 50)")
+        },
+        READS_DATA,
+        async ({tool, entityType, entityId, outcome, since, limit}) => {
+            try {
+                const sinceTime = since ? Date.parse(since) : null;
+                if (sinceTime !== null && isNaN(sinceTime)) {
+                    throw new Error(`'${since}' is not a valid date`);
+                }
+
+                const matches = (await readAuditEntries()).filter(entry =>
+                    (!tool || entry.tool === tool) &&
+                    (!entityType || entry.target.entityType === entityType) &&
+                    (entityId === undefined || entry.target.id === entityId || entry.resultId === entityId) &&
+                    (!outcome || entry.outcome === outcome) &&
+                    (sinceTime === null || Date.parse(entry.timestamp) >= sinceTime));
 
-// Logout tool
-server.tool(
-    "logout",
-    "Invalidate the current token and end the session",
-    {},
-    async () => {
-        try {
-            if (!apiUrlSet) {
                 return {
-                    isError: true,
                     content: [{
                         type: "text",
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: matches.length > 0
+                            ? `Found ${matches.length} audit entries${matches.length > limit ? `, showing the newest ${limit}` : ""}:\n` +
+                                JSON.stringify(matches.slice(0, limit), null, 2)
+                            : `No audit entries match in ${config.auditLog}.`
                     }]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     isError: true,
-                    content: [{type: "text", text: "Not authenticated yet. No need to logout."}]
+                    content: [{type: "text", text: `Error querying audit log: ${getErrorMessage(error)}`}]
                 };
             }
-
-            await authenticatedRequest("/tokens/invalidate", "POST");
-            authToken = null;
-            connectionVerified = false;
-
-            return {
-                content: [{
-                    type: "text",
-                    text: "Logged out successfully. Token invalidated."
-                }]
-            };
-        } catch (error) {
-            authToken = null; // Force logout even if API call fails
-            connectionVerified = false;
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error during logout: ${getErrorMessage(error)}. Token cleared locally.`}]
-            };
-        }
-    }
-);
-
-// Set organization ID tool
-server.tool(
-    "set-organization",
-    "Set the organization ID for subsequent requests",
-    {
-        orgId: z.number().describe("Organization ID")
-    },
-    async ({orgId: newOrgId}) => {
-        try {
-            orgId = newOrgId;
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Organization ID set to ${newOrgId}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error setting organization ID: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
-
-//
-// CATEGORY TOOLS
-//
-
-// List Categories tool (enhanced for better filter support)
-server.tool(
-    "list-categories",
-    "List all categories with filtering support",
-    {
-        filter: z.string().optional().describe("Filter criteria in the format 'fieldName(operator)=value'. Multiple filters can be combined with & (e.g., 'description(like)=dashboard&orgId(eq)=1'). Available operators: eq, ne, gt, lt, ge, le, like, nlike. Use get-filterable-attributes tool to see available fields."),
-        page: z.number().optional().default(1).describe("Page number for pagination"),
-        pageSize: z.number().optional().default(20).describe("Number of items per page")
-    },
-    async ({filter, page, pageSize}) => {
-        try {
-            let queryParams: Record<string, string> = {
-                page: page.toString(),
-                pageSize: pageSize.toString()
-            };
-
-            // Parse and add filter parameters
-            if (filter) {
-                const filterParams = parseFilters(filter);
-                queryParams = {...queryParams, ...filterParams};
+    );
+
+    //
+    // RESOURCE DEFINITIONS
+    //
+
+    // Enhanced authentication status resource
+    server.resource(
+        "auth-status",
+        "auth://status",
+        async (uri) => {
+            const isReady = state.apiUrlSet && !!state.apiBaseUrl && state.authToken !== null && state.connectionVerified;
+
+            // Try to verify the connection if we have an URL and token but it's not verified yet
+            let connectionStatus = "Unknown";
+            if (state.apiUrlSet && !!state.apiBaseUrl && state.authToken !== null) {
+                if (state.connectionVerified) {
+                    connectionStatus = "Verified";
+                } else {
+                    // Try to verify in background
+                    verifyConnection(state).then(result => {
+                        connectionStatus = result ? "Verified" : "Failed";
+                    }).catch(() => {
+                        connectionStatus = "Failed";
+                    });
+                    connectionStatus = "Pending verification";
+                }
+            } else {
+                connectionStatus = "Not configured";
             }
 
-            const categories = await authenticatedRequest("/categories", "GET", null, queryParams);
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Categories retrieved successfully:\n${JSON.stringify(categories, null, 2)}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error fetching categories: ${getErrorMessage(error)}`}]
-            };
-        }
-    }
-);
-
-// Get Category By ID tool
-server.tool(
-    "get-category",
-    "Get a category by ID",
-    {
-        id: z.number().describe("Category ID")
-    },
-    async ({id}) => {
-        try {
-            const category = await authenticatedRequest(`/categories/${id}`);
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Category details:\n${JSON.stringify(category, null, 2)}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error fetching category: ${getErrorMessage(error)}`}]
-            };
-        }
-    }
-);
-
-// Create Category tool
-server.tool(
-    "create-category",
-    "Create a new category",
-    {
-        description: z.string().describe("Unique name of a category"),
-        orgId: z.number().describe("Organization ID"),
-        label: z.string().optional().describe("Alternative text for the category"),
-        helpText: z.string().optional().describe("Help text to describe the category"),
-        categoryObjectsPosition: z.enum(["RIGHT", "TOP"]).optional().describe("Position of category objects panel"),
-        cascadeFilters: z.boolean().optional().describe("Enable cascading filters")
-    },
-    async ({description, orgId, label, helpText, categoryObjectsPosition, cascadeFilters}) => {
-        try {
-            const payload: any = {
-                description,
-                orgId
-            };
-
-            if (label !== undefined) payload.label = label;
-            if (helpText !== undefined) payload.helpText = helpText;
-            if (categoryObjectsPosition !== undefined) payload.categoryObjectsPosition = categoryObjectsPosition;
-            if (cascadeFilters !== undefined) payload.cascadeFilters = cascadeFilters;
-
-            const result = await authenticatedRequest("/categories", "POST", payload);
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Category created successfully:\n${JSON.stringify(result, null, 2)}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error creating category: ${getErrorMessage(error)}`}]
-            };
-        }
-    }
-);
-
-// Update Category tool
-server.tool(
-    "update-category",
-    "Update an existing category",
-    {
-        id: z.number().describe("Category ID"),
-        description: z.string().optional().describe("Unique name of a category"),
-        label: z.string().optional().describe("Alternative text for the category"),
-        helpText: z.string().optional().describe("Help text to describe the category"),
-        categoryObjectsPosition: z.enum(["RIGHT", "TOP"]).optional().describe("Position of category objects panel"),
-        cascadeFilters: z.boolean().optional().describe("Enable cascading filters")
-    },
-    async ({id, description, label, helpText, categoryObjectsPosition, cascadeFilters}) => {
-        try {
-            const payload: any = {};
-
-            if (description !== undefined) payload.description = description;
-            if (label !== undefined) payload.label = label;
-            if (helpText !== undefined) payload.helpText = helpText;
-            if (categoryObjectsPosition !== undefined) payload.categoryObjectsPosition = categoryObjectsPosition;
-            if (cascadeFilters !== undefined) payload.cascadeFilters = cascadeFilters;
-
-            const result = await authenticatedRequest(`/categories/${id}`, "PUT", payload);
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Category updated successfully:\n${JSON.stringify(result, null, 2)}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error updating category: ${getErrorMessage(error)}`}]
-            };
-        }
-    }
-);
-
-// Delete Category tool
-server.tool(
-    "delete-category",
-    "Delete a category",
-    {
-        id: z.number().describe("Category ID")
-    },
-    async ({id}) => {
-        try {
-            await authenticatedRequest(`/categories/${id}`, "DELETE");
-
             return {
-                content: [{
-                    type: "text",
-                    text: `Category with ID ${id} successfully deleted.`
+                contents: [{
+                    uri: uri.href,
+                    text: `Profile: ${state.activeProfile !== null ? state.activeProfile : "None"}` +
+                        `${Object.keys(state.profiles).length > 0 ? ` (available: ${Object.keys(state.profiles).join(", ")})` : ""}\n` +
+                        `API URL: ${state.apiUrlSet ? state.apiBaseUrl : "Not set"}\n` +
+                        `Authentication: ${state.authToken ? "Token present" : "Not authenticated"}\n` +
+                        `Connection Status: ${connectionStatus}\n` +
+                        `Organization: ${state.orgId !== null ? state.orgId : "Not set"}\n` +
+                        `Keep-alive: ${state.keepAliveTimer ? `Every ${config.keepAliveInterval}s` : "Disabled"}` +
+                        `${state.lastKeepAlive ? ` (last ${state.lastKeepAlive.ok ? "succeeded" : "failed"} at ${state.lastKeepAlive.at.toISOString()})` : ""}\n` +
+                        `Automatic re-authentication: ${[
+                            state.credentials ? "stored credentials" : null,
+                            config.tokenRefreshCommand ? "token refresh command" : null
+                        ].filter(Boolean).join(", ") || "Not available"}\n` +
+                        `${state.authEvents.length > 0 ? `Recent authentication events:\n${state.authEvents.map(event => `  - ${event}`).join("\n")}\n` : ""}` +
+                        `Ready to use: ${isReady ? "Yes - You can use the API" : "No - Additional setup required"}\n\n` +
+                        `${!isReady ? "Setup Instructions:\n" +
+                        (!state.apiUrlSet ? "1. Set API URL using the set-api-url tool\n" : "") +
+                        (!state.authToken ? "2. Authenticate using the authenticate tool\n" : "") +
+                        (state.authToken && !state.connectionVerified ? "3. Verify your token using the keep-session-alive tool\n" : "") : ""}`
                 }]
             };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error deleting category: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
+    );
 
-// List Category Objects tool
-server.tool(
-    "list-category-objects",
-    "List all objects for a specific category",
-    {
-        categoryId: z.number().describe("Category ID")
-    },
-    async ({categoryId}) => {
-        try {
-            const categoryObjects = await authenticatedRequest(`/categories/${categoryId}/categoryObjects`);
+    // Cache statistics resource
+    server.resource(
+        "cache-stats",
+        "cache://stats",
+        async (uri) => {
+            const cache = state.responseCache;
+            const lookups = cache.hits + cache.misses;
 
             return {
-                content: [{
-                    type: "text",
-                    text: `Category objects retrieved successfully:\n${JSON.stringify(categoryObjects, null, 2)}`
+                contents: [{
+                    uri: uri.href,
+                    text: JSON.stringify({
+                        enabled: config.cacheTtl > 0,
+                        ttlMs: config.cacheTtl,
+                        maxEntries: config.cacheMaxEntries,
+                        entries: cache.entries.size,
+                        hits: cache.hits,
+                        misses: cache.misses,
+                        hitRate: lookups > 0 ? `${(cache.hits / lookups * 100).toFixed(1)}%` : "n/a",
+                        evictions: cache.evictions,
+                        invalidations: cache.invalidations
+                    }, null, 2)
                 }]
             };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error fetching category objects: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
-
-//
-// CHART TOOLS
-//
+    );
 
-// List Charts tool (enhanced for better filter support)
-server.tool(
-    "list-charts",
-    "List all charts with filtering support",
-    {
-        filter: z.string().optional().describe("Filter criteria in the format 'fieldName(operator)=value'. Multiple filters can be combined with & (e.g., 'description(like)=revenue&categoryId(eq)=5'). Available operators: eq, ne, gt, lt, ge, le, like, nlike. Use get-filterable-attributes tool to see available fields."),
-        page: z.number().optional().default(1).describe("Page number for pagination"),
-        pageSize: z.number().optional().default(20).describe("Number of items per page")
-    },
-    async ({filter, page, pageSize}) => {
-        try {
-            let queryParams: Record<string, string> = {
-                page: page.toString(),
-                pageSize: pageSize.toString()
-            };
+    // Recent audit log entries
+    server.resource(
+        "audit-recent",
+        "audit://recent",
+        async (uri) => {
+            try {
+                const entries = await readAuditEntries();
 
-            // Parse and add filter parameters
-            if (filter) {
-                const filterParams = parseFilters(filter);
-                queryParams = {...queryParams, ...filterParams};
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        mimeType: "application/json",
+                        text: JSON.stringify(entries.slice(0, 50), null, 2)
+                    }]
+                };
+            } catch (error) {
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: `Error reading audit log: ${getErrorMessage(error)}`
+                    }]
+                };
             }
-
-            const charts = await authenticatedRequest("/charts", "GET", null, queryParams);
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Charts retrieved successfully:\n${JSON.stringify(charts, null, 2)}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error fetching charts: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
-
-// Get Chart By ID tool
-server.tool(
-    "get-chart",
-    "Get a chart by ID",
-    {
-        id: z.number().describe("Chart ID")
-    },
-    async ({id}) => {
-        try {
-            const chart = await authenticatedRequest(`/charts/${id}`);
-
-            return {
-                content: [{
-                    type: "text",
-                    text: `Chart details:\n${JSON.stringify(chart, null, 2)}`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error fetching chart: ${getErrorMessage(error)}`}]
-            };
-        }
-    }
-);
+    );
 
-// Delete Chart tool
-server.tool(
-    "delete-chart",
-    "Delete a chart",
-    {
-        id: z.number().describe("Chart ID")
-    },
-    async ({id}) => {
-        try {
-            await authenticatedRequest(`/charts/${id}`, "DELETE");
+    // Categories resource
+    server.resource(
+        "categories-list",
+        "categories://list",
+        async (uri) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
 
-            return {
-                content: [{
-                    type: "text",
-                    text: `Chart with ID ${id} successfully deleted.`
-                }]
-            };
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error deleting chart: ${getErrorMessage(error)}`}]
-            };
-        }
-    }
-);
+                if (!state.authToken) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        }]
+                    };
+                }
 
-// Export Chart tool
-server.tool(
-    "export-chart",
-    "Export a chart in various formats",
-    {
-        id: z.number().describe("Chart ID"),
-        format: z.enum(["json", "csv"]).describe("Export format")
-    },
-    async ({id, format}) => {
-        try {
-            const result = await authenticatedRequest(`/charts/${id}/${format}`);
+                const categories = await fetchAllPages(state, "/categories", {}, 100, DEFAULT_MAX_ITEMS);
 
-            if (result && typeof result === 'object' &&
-                'contentType' in result && 'data' in result &&
-                typeof result.data === 'string') {
-                // This is a binary response
                 return {
-                    content: [{
-                        type: "text",
-                        text: `Chart exported successfully as ${format.toUpperCase()}.\nContent type: ${result.contentType}\nBase64 data: ${result.data.substring(0, 100)}...`
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify(categories, null, 2)
                     }]
                 };
-            } else {
-                // This is a JSON or text response
+            } catch (error) {
                 return {
-                    content: [{
-                        type: "text",
-                        text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
+                    contents: [{
+                        uri: uri.href,
+                        text: `Error fetching categories: ${getErrorMessage(error)}`
                     }]
                 };
             }
-        } catch (error) {
-            return {
-                isError: true,
-                content: [{type: "text", text: `Error exporting chart: ${getErrorMessage(error)}`}]
-            };
         }
-    }
-);
-
-//
-// RESOURCE DEFINITIONS
-//
-
-// Enhanced authentication status resource
-server.resource(
-    "auth-status",
-    "auth://status",
-    async (uri) => {
-        const isReady = apiUrlSet && !!API_BASE_URL && authToken !== null && connectionVerified;
-
-        // Try to verify the connection if we have an URL and token but it's not verified yet
-        let connectionStatus = "Unknown";
-        if (apiUrlSet && !!API_BASE_URL && authToken !== null) {
-            if (connectionVerified) {
-                connectionStatus = "Verified";
-            } else {
-                // Try to verify in background
-                verifyConnection().then(result => {
-                    connectionStatus = result ? "Verified" : "Failed";
-                }).catch(() => {
-                    connectionStatus = "Failed";
-                });
-                connectionStatus = "Pending verification";
+    );
+
+    // Single category resource
+    server.resource(
+        "category-detail",
+        new ResourceTemplate("categories://{id}", {
+            list: async () => listEntityResources(state, "category", id => `categories://${id}`),
+            complete: {
+                id: async (value) => completeEntityIds(state, "category", value)
             }
-        } else {
-            connectionStatus = "Not configured";
-        }
+        }),
+        async (uri, {id}) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
 
-        return {
-            contents: [{
-                uri: uri.href,
-                text: `API URL: ${apiUrlSet ? API_BASE_URL : "Not set"}\n` +
-                    `Authentication: ${authToken ? "Token present" : "Not authenticated"}\n` +
-                    `Connection Status: ${connectionStatus}\n` +
-                    `Organization: ${orgId !== null ? orgId : "Not set"}\n` +
-                    `Ready to use: ${isReady ? "Yes - You can use the API" : "No - Additional setup required"}\n\n` +
-                    `${!isReady ? "Setup Instructions:\n" +
-                        (!apiUrlSet ? "1. Set API URL using the set-api-url tool\n" : "") +
-                        (!authToken ? "2. Authenticate using the authenticate tool\n" : "") +
-                        (authToken && !connectionVerified ? "3. Verify your token using the keep-session-alive tool\n" : "") : ""}`
-            }]
-        };
-    }
-);
+                if (!state.authToken) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        }]
+                    };
+                }
+
+                const category = await authenticatedRequest(state, `/categories/${id}`);
 
-// Categories resource
-server.resource(
-    "categories-list",
-    "categories://list",
-    async (uri) => {
-        try {
-            if (!apiUrlSet) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: JSON.stringify(category, null, 2)
                     }]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        text: `Error fetching category: ${getErrorMessage(error)}`
                     }]
                 };
             }
-
-            const categories = await authenticatedRequest("/categories");
-
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: JSON.stringify(categories, null, 2)
-                }]
-            };
-        } catch (error) {
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: `Error fetching categories: ${getErrorMessage(error)}`
-                }]
-            };
         }
-    }
-);
+    );
+
+    // Category objects resource
+    server.resource(
+        "category-objects",
+        new ResourceTemplate("categories://{categoryId}/objects", {
+            list: async () => listEntityResources(state, "category", id => `categories://${id}/objects`, description => `Objects of ${description}`),
+            complete: {
+                categoryId: async (value) => completeEntityIds(state, "category", value)
+            }
+        }),
+        async (uri, {categoryId}) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
+
+                if (!state.authToken) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        }]
+                    };
+                }
+
+                const categoryObjects = await authenticatedRequest(state, `/categories/${categoryId}/categoryObjects`);
 
-// Single category resource
-server.resource(
-    "category-detail",
-    new ResourceTemplate("categories://{id}", {list: undefined}),
-    async (uri, {id}) => {
-        try {
-            if (!apiUrlSet) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: JSON.stringify(categoryObjects, null, 2)
                     }]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        text: `Error fetching category objects: ${getErrorMessage(error)}`
                     }]
                 };
             }
+        }
+    );
 
-            const category = await authenticatedRequest(`/categories/${id}`);
+    // Charts resource
+    server.resource(
+        "charts-list",
+        "charts://list",
+        async (uri) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
 
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: JSON.stringify(category, null, 2)
-                }]
-            };
-        } catch (error) {
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: `Error fetching category: ${getErrorMessage(error)}`
-                }]
-            };
-        }
-    }
-);
+                if (!state.authToken) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        }]
+                    };
+                }
+
+                const charts = await fetchAllPages(state, "/charts", {}, 100, DEFAULT_MAX_ITEMS);
 
-// Category objects resource
-server.resource(
-    "category-objects",
-    new ResourceTemplate("categories://{categoryId}/objects", {list: undefined}),
-    async (uri, {categoryId}) => {
-        try {
-            if (!apiUrlSet) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: JSON.stringify(charts, null, 2)
                     }]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        text: `Error fetching charts: ${getErrorMessage(error)}`
                     }]
                 };
             }
+        }
+    );
+
+    // Single chart resource
+    server.resource(
+        "chart-detail",
+        new ResourceTemplate("charts://{id}", {
+            list: async () => listEntityResources(state, "chart", id => `charts://${id}`),
+            complete: {
+                id: async (value) => completeEntityIds(state, "chart", value)
+            }
+        }),
+        async (uri, {id}) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
 
-            const categoryObjects = await authenticatedRequest(`/categories/${categoryId}/categoryObjects`);
+                if (!state.authToken) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        }]
+                    };
+                }
 
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: JSON.stringify(categoryObjects, null, 2)
-                }]
-            };
-        } catch (error) {
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: `Error fetching category objects: ${getErrorMessage(error)}`
-                }]
-            };
-        }
-    }
-);
+                const chart = await authenticatedRequest(state, `/charts/${id}`);
 
-// Charts resource
-server.resource(
-    "charts-list",
-    "charts://list",
-    async (uri) => {
-        try {
-            if (!apiUrlSet) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: JSON.stringify(chart, null, 2)
                     }]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        text: `Error fetching chart: ${getErrorMessage(error)}`
                     }]
                 };
             }
+        }
+    );
+
+    // Chart export resource
+    server.resource(
+        "chart-export",
+        // Exports are not listed - one entry per chart and format would only repeat charts://{id}
+        new ResourceTemplate("charts://{id}/export/{format}", {
+            list: undefined,
+            complete: {
+                id: async (value) => completeEntityIds(state, "chart", value),
+                format: async (value) => completeExportFormat(value)
+            }
+        }),
+        async (uri, {id, format}) => {
+            try {
+                if (!state.apiUrlSet) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        }]
+                    };
+                }
 
-            const charts = await authenticatedRequest("/charts");
+                if (!state.authToken) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        }]
+                    };
+                }
 
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: JSON.stringify(charts, null, 2)
-                }]
-            };
-        } catch (error) {
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: `Error fetching charts: ${getErrorMessage(error)}`
-                }]
-            };
-        }
-    }
-);
+                const result = await authenticatedRequest(state, `/charts/${id}/${format}`);
+                const chartExport = toChartExport(result, String(format));
 
-// Single chart resource
-server.resource(
-    "chart-detail",
-    new ResourceTemplate("charts://{id}", {list: undefined}),
-    async (uri, {id}) => {
-        try {
-            if (!apiUrlSet) {
                 return {
-                    contents: [{
-                        uri: uri.href,
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
-                    }]
+                    contents: [chartExport.text !== undefined
+                        ? {uri: uri.href, mimeType: chartExport.mimeType, text: chartExport.text}
+                        : {uri: uri.href, mimeType: chartExport.mimeType, blob: chartExport.blob as string}]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        text: `Error exporting chart: ${getErrorMessage(error)}`
                     }]
                 };
             }
+        }
+    );
+
+    // Inferred entity schemas
+    for (const entityType of ["chart", "category"] as EntityType[]) {
+        server.resource(
+            `${entityType}-schema`,
+            `schema://${entityType}`,
+            async (uri) => {
+                try {
+                    if (!state.apiUrlSet || !state.authToken) {
+                        return {
+                            contents: [{
+                                uri: uri.href,
+                                text: "Please set API URL and authenticate before reading the schema."
+                            }]
+                        };
+                    }
 
-            const chart = await authenticatedRequest(`/charts/${id}`);
+                    const schema = await inferEntitySchema(state, entityType);
 
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: JSON.stringify(chart, null, 2)
-                }]
-            };
-        } catch (error) {
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: `Error fetching chart: ${getErrorMessage(error)}`
-                }]
-            };
-        }
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            mimeType: "application/json",
+                            text: schema
+                                ? JSON.stringify(schema, null, 2)
+                                : JSON.stringify({entityType, sampleSize: 0, attributes: []}, null, 2)
+                        }]
+                    };
+                } catch (error) {
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: `Error inferring ${entityType} schema: ${getErrorMessage(error)}`
+                        }]
+                    };
+                }
+            }
+        );
     }
-);
 
-// Chart export resource
-server.resource(
-    "chart-export",
-    new ResourceTemplate("charts://{id}/export/{format}", {list: undefined}),
-    async (uri, {id, format}) => {
-        try {
-            if (!apiUrlSet) {
+    // Chart exports saved to disk
+    server.resource(
+        "exports-list",
+        "exports://list",
+        async (uri) => {
+            try {
+                const exports = await listChartExports();
+
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "API URL not set. Please set the API URL first using the set-api-url tool."
+                        text: exports.length > 0
+                            ? `Exports in ${path.resolve(config.exportDir)}:\n${JSON.stringify(exports, null, 2)}`
+                            : `No exports saved yet. Use export-chart with outputPath to save one to ${path.resolve(config.exportDir)}.`
                     }]
                 };
-            }
-
-            if (!authToken) {
+            } catch (error) {
                 return {
                     contents: [{
                         uri: uri.href,
-                        text: "Not authenticated. Please authenticate first using the authenticate tool."
+                        text: `Error listing exports: ${getErrorMessage(error)}`
                     }]
                 };
             }
+        }
+    );
+
+    // Plugins loaded from pluginDir, with what they registered with this session and why they failed
+    server.resource(
+        "plugins-list",
+        "plugins://list",
+        async (uri) => {
+            const report = plugins.map(plugin => {
+                const registration = pluginRegistrations.get(plugin);
+                const error = plugin.error ?? registration?.error ?? null;
+                return {
+                    name: plugin.name,
+                    version: plugin.version,
+                    file: plugin.file,
+                    status: error ? "failed" : "loaded",
+                    error,
+                    tools: registration?.tools ?? [],
+                    resources: registration?.resources ?? [],
+                    prompts: registration?.prompts ?? []
+                };
+            });
 
-            const result = await authenticatedRequest(`/charts/${id}/${format}`);
-
-            return {
-                contents: [{
-                    uri: uri.href,
-                    text: typeof result === 'string'
-                        ? result
-                        : result && typeof result === 'object' && 'contentType' in result
-                            ? `Binary data of type ${result.contentType}`
-                            : JSON.stringify(result, null, 2)
-                }]
-            };
-        } catch (error) {
             return {
                 contents: [{
                     uri: uri.href,
-                    text: `Error exporting chart: ${getErrorMessage(error)}`
+                    text: !config.pluginDir
+                        ? "No plugin directory configured. Set pluginDir (--plugin-dir) to load plugins."
+                        : report.length > 0
+                            ? `Plugins in ${path.resolve(config.pluginDir)}:\n${JSON.stringify(report, null, 2)}`
+                            : `No plugins found in ${path.resolve(config.pluginDir)}.`
                 }]
             };
         }
-    }
-);
+    );
 
-//
-// PROMPTS FOR DATA ANALYSIS
-//
+    //
+    // PROMPTS FOR DATA ANALYSIS
+    //
 
-// Prompt for analyzing categories
-server.prompt(
-    "analyze-categories",
-    "Analyze categories in the dashboard",
-    {},
-    async () => {
-        const needsAuthentication = !apiUrlSet || !authToken || !connectionVerified;
+    // Prompt for analyzing categories
+    server.prompt(
+        "analyze-categories",
+        "Analyze categories in the dashboard",
+        {},
+        async () => {
+            const needsAuthentication = !state.apiUrlSet || !state.authToken || !state.connectionVerified;
 
-        return {
-            messages: [{
-                role: "user",
-                content: {
-                    type: "text",
-                    text: `Please analyze the categories in the dashboard.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
+            return {
+                messages: [{
+                    role: "user",
+                    content: {
+                        type: "text",
+                        text: `Please analyze the categories in the dashboard.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
         
-1. ${needsAuthentication ? "After ensuring you're authenticated, use" : "Use"} the 'list-categories' tool to retrieve all categories
+1. ${needsAuthentication ? "After ensuring you're authenticated, use" : "Use"} the 'list-categories' tool with fetchAll set to true to retrieve all categories
 2. Provide the following analysis:
    - Total number of categories
    - Categories by orgId (if multiple organizations exist)
    - Identify any categories with special functions (e.g., those with cascadeFilters=false)
    - Recommend any potential category structure improvements based on the description and hierarchy`
-                }
-            }]
-        };
-    }
-);
+                    }
+                }]
+            };
+        }
+    );
 
-// Prompt for analyzing charts
-server.prompt(
-    "analyze-charts",
-    "Analyze charts in the dashboard",
-    {},
-    async () => {
-        const needsAuthentication = !apiUrlSet || !authToken || !connectionVerified;
+    // Prompt for analyzing charts
+    server.prompt(
+        "analyze-charts",
+        "Analyze charts in the dashboard",
+        {},
+        async () => {
+            const needsAuthentication = !state.apiUrlSet || !state.authToken || !state.connectionVerified;
 
-        return {
-            messages: [{
-                role: "user",
-                content: {
-                    type: "text",
-                    text: `Please analyze the charts in the dashboard.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
+            return {
+                messages: [{
+                    role: "user",
+                    content: {
+                        type: "text",
+                        text: `Please analyze the charts in the dashboard.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
         
-1. ${needsAuthentication ? "After ensuring you're authenticated, use" : "Use"} the 'list-charts' tool to retrieve all charts
+1. ${needsAuthentication ? "After ensuring you're authenticated, use" : "Use"} the 'list-charts' tool with fetchAll set to true to retrieve all charts
 2. Provide the following analysis:
    - Total number of charts
    - Distribution of chart types (count of each chartTypeId)
    - Charts by category (if applicable)
    - Any anonymous charts (anonymous=true)
    - Recommendations for chart organization based on descriptions and categories`
-                }
-            }]
-        };
-    }
-);
-
-// Prompt for comparing chart data
-server.prompt(
-    "compare-charts",
-    "Compare data between two charts",
-    {
-        chartId1: z.string().describe("First chart ID"),
-        chartId2: z.string().describe("Second chart ID"),
-        format: z.string().optional().describe("Export format for comparison (json or csv)")
-    },
-    async ({chartId1, chartId2, format}) => {
-        const needsAuthentication = !apiUrlSet || !authToken || !connectionVerified;
+                    }
+                }]
+            };
+        }
+    );
+
+    // Prompt for comparing chart data
+    server.prompt(
+        "compare-charts",
+        "Compare data between two charts",
+        {
+            chartId1: completable(z.string().describe("First chart ID"), async (value) => completeEntityIds(state, "chart", value)),
+            chartId2: completable(z.string().describe("Second chart ID"), async (value) => completeEntityIds(state, "chart", value)),
+            format: z.string().optional().describe("Export format for comparison (json or csv)")
+        },
+        async ({chartId1, chartId2, format}) => {
+            const needsAuthentication = !state.apiUrlSet || !state.authToken || !state.connectionVerified;
 
-        return {
-            messages: [{
-                role: "user",
-                content: {
-                    type: "text",
-                    text: `Please compare the data between two charts.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
+            return {
+                messages: [{
+                    role: "user",
+                    content: {
+                        type: "text",
+                        text: `Please compare the data between two charts.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
         
 1. ${needsAuthentication ? "After ensuring you're authenticated, perform" : "Perform"} the following actions:
    - Get details for chart ${chartId1} using the 'get-chart' tool
    - Get details for chart ${chartId2} using the 'get-chart' tool
-   - Export both charts in ${format || "json"} format using the 'export-chart' tool
-   - Compare the data structure and content between the two charts
-   - Identify key differences in metrics, dimensions, or data patterns
+   - Run the 'diff-charts' tool with chartId1 ${chartId1}, chartId2 ${chartId2} and source "${format === "csv" ? "csv" : "json"}" to compute the differences
+   - If the rows were aligned by position, run 'diff-charts' again with the keyColumns that identify a row
+   - Base the comparison on the computed differences rather than exporting and diffing the raw data yourself
+   - Explain the schema differences, added and removed rows, and the largest changes in the measures
    - Suggest potential insights based on the comparison`
-                }
-            }]
-        };
-    }
-);
+                    }
+                }]
+            };
+        }
+    );
 
-// Prompt for category usage analysis
-server.prompt(
-    "category-usage-analysis",
-    "Analyze how categories are being used in charts",
-    {},
-    async () => {
-        const needsAuthentication = !apiUrlSet || !authToken || !connectionVerified;
+    // Prompt for category usage analysis
+    server.prompt(
+        "category-usage-analysis",
+        "Analyze how categories are being used in charts",
+        {},
+        async () => {
+            const needsAuthentication = !state.apiUrlSet || !state.authToken || !state.connectionVerified;
 
-        return {
-            messages: [{
-                role: "user",
-                content: {
-                    type: "text",
-                    text: `Please analyze how categories are being used across charts.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
+            return {
+                messages: [{
+                    role: "user",
+                    content: {
+                        type: "text",
+                        text: `Please analyze how categories are being used across charts.${needsAuthentication ? "\n\nNote: First check the connection status using the check-connection tool and set up authentication if needed." : ""} 
         
 1. ${needsAuthentication ? "After ensuring you're authenticated, follow" : "Follow"} these steps:
-   - List all categories using the 'list-categories' tool
-   - List all charts using the 'list-charts' tool
+   - List all categories using the 'list-categories' tool with fetchAll set to true
+   - List all charts using the 'list-charts' tool with fetchAll set to true
    - For each chart, check which category it belongs to
    - Create a summary of:
      * Most frequently used categories for charts
      * Categories with no associated charts
      * Distribution of chart types within each category
    - Recommend potential reorganization of categories or charts to improve dashboard structure`
-                }
-            }]
-        };
-    }
-);
-
-// Enhanced prompt for using filtering efficiently
-server.prompt(
-    "use-filters",
-    "Shows how to use filters effectively with this API",
-    {},
-    async () => {
-        return {
-            messages: [{
-                role: "user",
-                content: {
-                    type: "text",
-                    text: `Please demonstrate how to use filtering effectively with this API.
+                    }
+                }]
+            };
+        }
+    );
+
+    // Enhanced prompt for using filtering efficiently
+    server.prompt(
+        "use-filters",
+        "Shows how to use filters effectively with this API",
+        {},
+        async () => {
+            return {
+                messages: [{
+                    role: "user",
+                    content: {
+                        type: "text",
+                        text: `Please demonstrate how to use filtering effectively with this API.
 
 1. First, use the get-filterable-attributes tool for both 'chart' and 'category' to understand what attributes can be filtered on
 
@@ -1478,24 +5665,49 @@ server.prompt(
    - Using the 'like' operator for text search (preferred for case-insensitive substring matching)
    - Using numeric comparisons with gt, lt, etc.
    - Combining multiple filters 
+   - Using 'in', 'between' and 'isnull', and quoting values that contain & or ,
    
 3. Create practical examples of list-charts and list-categories with filters that:
    - Find charts with specific text in their descriptions
    - Find categories with specific attributes
    - Demonstrate how to narrow results with multiple criteria`
-                }
-            }]
-        };
+                    }
+                }]
+            };
+        }
+    );
+
+    //
+    // PLUGINS
+    //
+
+    // Plugins register last, so that a name clash fails the plugin rather than a built-in tool
+    for (const plugin of plugins) {
+        if (plugin.register) {
+            pluginRegistrations.set(plugin, await registerPlugin(plugin, server, state, toolNames));
+        }
+    }
+
+    // A typo in an allow/deny list would silently change the policy, so report entries that match no tool
+    for (const pattern of [...(config.allowTools || []), ...config.denyTools]) {
+        if (!toolNames.some(name => matchesToolPattern(name, pattern))) {
+            logError(`Tool list entry '${pattern}' does not match any tool`);
+        }
+    }
+    if (skippedTools.length > 0) {
+        logInfo(`Tools left out by read-only mode or the allow/deny lists: ${skippedTools.join(", ")}`);
     }
-);
+
+    return server;
+}
 
 // Initialize and verify connection on startup
-async function initializeAndVerifyConnection() {
-    if (apiUrlSet && authToken) {
+async function initializeAndVerifyConnection(state: ConnectionState) {
+    if (state.apiUrlSet && state.authToken) {
         logInfo("API URL and auth token provided. Verifying connection...");
 
         try {
-            const isConnected = await verifyConnection();
+            const isConnected = await verifyConnection(state);
             if (isConnected) {
                 logInfo("✅ Connection verified! API URL and token are valid.");
                 console.error("CONNECTION STATUS: Ready - Authentication verified");
@@ -1503,17 +5715,17 @@ async function initializeAndVerifyConnection() {
                 logError("❌ Connection verification failed. Token might be invalid or expired.");
                 console.error("CONNECTION STATUS: Failed - Authentication provided but validation failed");
                 // Reset auth token if it's invalid
-                authToken = null;
-                connectionVerified = false;
+                state.authToken = null;
+                state.connectionVerified = false;
             }
         } catch (error) {
             logError(`❌ Connection verification error: ${getErrorMessage(error)}`);
             console.error("CONNECTION STATUS: Error - Could not verify connection");
             // Reset auth token if verification throws an error
-            authToken = null;
-            connectionVerified = false;
+            state.authToken = null;
+            state.connectionVerified = false;
         }
-    } else if (apiUrlSet) {
+    } else if (state.apiUrlSet) {
         logInfo("API URL set but auth token not provided. User will need to authenticate.");
         console.error("CONNECTION STATUS: Partial - API URL set but authentication needed");
     } else {
@@ -1522,18 +5734,230 @@ async function initializeAndVerifyConnection() {
     }
 }
 
+// Largest request body the HTTP transport accepts
+const MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024;
+
+// Helper to read and parse a JSON request body
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_REQUEST_BODY_BYTES) {
+                // Stop buffering; the handler replies 413 based on statusCode
+                req.removeAllListeners("data");
+                req.resume();
+                reject(Object.assign(new Error(`Request body is larger than ${MAX_REQUEST_BODY_BYTES} bytes`), {statusCode: 413}));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => {
+            if (size > MAX_REQUEST_BODY_BYTES) return;
+            const raw = Buffer.concat(chunks).toString("utf-8");
+            try {
+                resolve(raw ? JSON.parse(raw) : undefined);
+            } catch (error) {
+                reject(new Error(`Invalid JSON body: ${getErrorMessage(error)}`));
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+// Helper to reply with a JSON-RPC error outside of an MCP session
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+    res.writeHead(status, {"Content-Type": "application/json"});
+    res.end(JSON.stringify({
+        jsonrpc: "2.0",
+        error: {code: -32000, message},
+        id: null
+    }));
+}
+
+// Helper to list the Host header values the HTTP transport accepts - localhost, the listening host and allowedHosts,
+// each with and without the port. Anything else is rejected, which protects local sessions against DNS rebinding.
+function allowedHostHeaders(host: string, port: number): string[] {
+    const names = ["localhost", "127.0.0.1", "[::1]", ...(["0.0.0.0", "::"].includes(host) ? [] : [host]), ...config.allowedHosts];
+    return [...new Set(names.flatMap(name => /:\d+$/.test(name) && !name.endsWith("]") ? [name] : [name, `${name}:${port}`]))];
+}
+
+// Start the HTTP server - Streamable HTTP on /mcp, legacy SSE on /sse + /messages.
+// Every session gets its own copy of the initial connection state.
+function startHttpServer(port: number, host: string) {
+    const streamableTransports: Record<string, StreamableHTTPServerTransport> = {};
+    const sseTransports: Record<string, SSEServerTransport> = {};
+    const allowedHosts = allowedHostHeaders(host, port);
+    const dnsRebindingProtection = {allowedHosts, enableDnsRebindingProtection: true};
+
+    // Streamable HTTP sessions end with a DELETE, which clients that disappear never send. A session without
+    // open requests is closed after sessionIdleTimeout, so its keep-alive and subscription polling stop.
+    const sessionActivity: Record<string, {openRequests: number; idleTimer: NodeJS.Timeout | null}> = {};
+
+    const trackSessionRequest = (sessionId: string, res: ServerResponse) => {
+        const activity = sessionActivity[sessionId] ??= {openRequests: 0, idleTimer: null};
+        activity.openRequests++;
+        if (activity.idleTimer) {
+            clearTimeout(activity.idleTimer);
+            activity.idleTimer = null;
+        }
+
+        res.on("close", () => {
+            activity.openRequests--;
+            if (activity.openRequests > 0 || config.sessionIdleTimeout === 0 || !streamableTransports[sessionId]) return;
+
+            activity.idleTimer = setTimeout(() => {
+                logInfo(`Streamable HTTP session ${sessionId} was idle for ${config.sessionIdleTimeout}s, closing it`);
+                streamableTransports[sessionId]?.close();
+            }, config.sessionIdleTimeout * 1000);
+            activity.idleTimer.unref();
+        });
+    };
+
+    const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+        const transport = sessionId ? streamableTransports[sessionId] : undefined;
+
+        if (sessionId && !transport) {
+            sendJsonRpcError(res, 404, "Session not found");
+            return;
+        }
+
+        if (transport) {
+            trackSessionRequest(sessionId!, res);
+            await transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== "POST" || !isInitializeRequest(body)) {
+            sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+            return;
+        }
+
+        const newTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (newSessionId) => {
+                streamableTransports[newSessionId] = newTransport;
+                trackSessionRequest(newSessionId, res);
+                logInfo(`Streamable HTTP session started: ${newSessionId}`);
+            },
+            ...dnsRebindingProtection
+        });
+
+        newTransport.onclose = () => {
+            if (newTransport.sessionId) {
+                const activity = sessionActivity[newTransport.sessionId];
+                if (activity?.idleTimer) clearTimeout(activity.idleTimer);
+                delete sessionActivity[newTransport.sessionId];
+                delete streamableTransports[newTransport.sessionId];
+                logInfo(`Streamable HTTP session closed: ${newTransport.sessionId}`);
+            }
+        };
+
+        const server = await createServer(cloneConnectionState(initialState));
+        await server.connect(newTransport);
+
+        // A session that never started must not keep its server, keep-alive and polling
+        try {
+            await newTransport.handleRequest(req, res, body);
+        } catch (error) {
+            await server.close();
+            throw error;
+        }
+        if (!newTransport.sessionId || !streamableTransports[newTransport.sessionId]) {
+            await server.close();
+        }
+    };
+
+    const handleSseConnect = async (res: ServerResponse) => {
+        const transport = new SSEServerTransport("/messages", res, dnsRebindingProtection);
+        sseTransports[transport.sessionId] = transport;
+        logInfo(`SSE session started: ${transport.sessionId}`);
+
+        res.on("close", () => {
+            delete sseTransports[transport.sessionId];
+            logInfo(`SSE session closed: ${transport.sessionId}`);
+        });
+
+        await (await createServer(cloneConnectionState(initialState))).connect(transport);
+    };
+
+    const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, sessionId: string | null) => {
+        const transport = sessionId ? sseTransports[sessionId] : undefined;
+        if (!transport) {
+            sendJsonRpcError(res, 404, "Session not found");
+            return;
+        }
+
+        await transport.handlePostMessage(req, res, await readJsonBody(req));
+    };
+
+    const httpServer = createHttpServer(async (req, res) => {
+        try {
+            if (!allowedHosts.includes(req.headers.host || "")) {
+                sendJsonRpcError(res, 403, `Invalid Host header: ${req.headers.host}`);
+                return;
+            }
+
+            const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+            if (url.pathname === "/mcp") {
+                await handleStreamableRequest(req, res);
+            } else if (url.pathname === "/sse" && req.method === "GET") {
+                await handleSseConnect(res);
+            } else if (url.pathname === "/messages" && req.method === "POST") {
+                await handleSseMessage(req, res, url.searchParams.get("sessionId"));
+            } else {
+                res.writeHead(404, {"Content-Type": "text/plain"});
+                res.end("Not found");
+            }
+        } catch (error) {
+            const statusCode = (error as {statusCode?: number}).statusCode;
+            logError(`HTTP request error: ${getErrorMessage(error)}`);
+            if (!res.headersSent) {
+                sendJsonRpcError(res, statusCode ?? 500, statusCode ? getErrorMessage(error) : `Internal server error: ${getErrorMessage(error)}`);
+            }
+        }
+    });
+
+    httpServer.listen(port, host, () => {
+        logInfo(`PI API MCP Server running on http://${host.includes(":") ? `[${host}]` : host}:${port}/mcp (legacy SSE on /sse)`);
+    });
+}
+
+// Start the configured transport, once the plugins are loaded
+async function startServer() {
+    if (config.pluginDir) {
+        await loadPlugins(config.pluginDir);
+    }
+
+    if (config.transport === "http") {
+        startHttpServer(config.port, config.host);
+    } else {
+        const transport = new StdioServerTransport();
+        await (await createServer(initialState)).connect(transport);
+        logInfo("PI API MCP Server running on stdio");
+    }
+}
+
+// A server that cannot start is of no use to the client waiting for it
+function exitOnStartupError(error: unknown) {
+    logError(`Could not start the PI API MCP Server: ${getErrorMessage(error)}`);
+    process.exit(1);
+}
+
 // Start the server with initialization message and connection testing
-initializeAndVerifyConnection().then(() => {
+initializeAndVerifyConnection(initialState).then(() => {
     // Start the server after initialization
-    const transport = new StdioServerTransport();
-    server.connect(transport);
-    logInfo("PI API MCP Server running on stdio");
+    startServer().catch(exitOnStartupError);
 }).catch(error => {
     logError(`Error during initialization: ${getErrorMessage(error)}`);
     console.error("CONNECTION STATUS: Error - Initialization failed");
 
     // Start the server even if initialization fails
-    const transport = new StdioServerTransport();
-    server.connect(transport);
-    logInfo("PI API MCP Server running on stdio despite initialization error");
-});
\ No newline at end of file
+    logInfo("Starting PI API MCP Server despite initialization error");
+    startServer().catch(exitOnStartupError);
+});
@@ -0,0 +1,37 @@
+// Checks how filter strings reach PI. Unrecorded requests fail with their query string, which is what these tests look at.
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {callTool, withReplayServer} from "./helpers.mjs";
+
+// Helper to list charts with a filter and return the result
+function listChartsWithFilter(filter) {
+    return withReplayServer(async client => {
+        await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"});
+        return callTool(client, "list-charts", {filter});
+    });
+}
+
+test("sends in lists as one comma-separated parameter", async () => {
+    const result = await listChartsWithFilter("id(in)=101,201");
+    assert.match(result.text, /GET \/charts\?page=1&pageSize=20&id\(in\)=101%2C201$/);
+});
+
+test("keeps a quoted comma in a single value", async () => {
+    const result = await listChartsWithFilter('description(like)="Smith, J"');
+    assert.match(result.text, /&description\(like\)=Smith%2C%20J$/);
+});
+
+test("rejects in and between values that contain a comma", async () => {
+    for (const filter of ['description(in)="Smith, J",Jones', "id(between)=1\\,5,10"]) {
+        const result = await listChartsWithFilter(filter);
+        assert.equal(result.isError, true);
+        assert.ok(result.text.includes(`Invalid filter term '${filter}': `), result.text);
+        assert.match(result.text, /(in|between) values cannot contain a comma/);
+    }
+});
+
+test("names the malformed term", async () => {
+    const result = await listChartsWithFilter("description(like)=Revenue&id(eq");
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Invalid filter term 'id\(eq': expected an operator in parentheses/);
+});
@@ -0,0 +1,67 @@
+// Helpers shared by the tests - each test starts its own server process on stdio
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import {fileURLToPath} from "node:url";
+import {Client} from "@modelcontextprotocol/sdk/client/index.js";
+import {StdioClientTransport} from "@modelcontextprotocol/sdk/client/stdio.js";
+
+export const testDir = path.dirname(fileURLToPath(import.meta.url));
+
+// Helper to start a server with the given options and run a callback with a connected client
+export async function withServer(args, callback) {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-api-mcp-test-"));
+    const transport = new StdioClientTransport({
+        command: process.execPath,
+        args: [
+            path.join(testDir, "build", "index.js"),
+            ...args,
+            "--profiles", path.join(workDir, "profiles.json"),
+            "--audit-log", path.join(workDir, "audit.jsonl"),
+            "--keep-alive-interval", "0",
+            "--log-level", "silent"
+        ],
+        env: {HOME: workDir, PATH: process.env.PATH ?? ""},
+        stderr: "ignore"
+    });
+    const client = new Client({name: "pi-api-mcp-test", version: "1.0.0"});
+    await client.connect(transport);
+
+    try {
+        return await callback(client);
+    } finally {
+        await client.close();
+        fs.rmSync(workDir, {recursive: true, force: true});
+    }
+}
+
+export const fixturesDir = path.join(testDir, "fixtures");
+
+// Helper to start a server that replays the fixtures. The host is never contacted - fixtures are matched relative to the API URL.
+export function withReplayServer(callback) {
+    return withServer(["--api-url", "http://pi.invalid/pi/api/v2", "--replay", fixturesDir], callback);
+}
+
+// Helper to call a tool and return its text
+export async function callTool(client, name, args = {}) {
+    const result = await client.callTool({name, arguments: args});
+    return {isError: result.isError === true, text: result.content.map(item => item.text).join("\n")};
+}
+
+// Helper to run a local stub of the PI API for the duration of a callback. Routes map "METHOD /path" to a JSON response.
+export async function withStubApi(routes, callback) {
+    const server = http.createServer((req, res) => {
+        const route = routes[`${req.method} ${new URL(req.url, "http://stub").pathname}`];
+        res.writeHead(route ? 200 : 404, {"content-type": "application/json"});
+        res.end(JSON.stringify(route ?? {error: "not found"}));
+    });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+        return await callback(`http://127.0.0.1:${server.address().port}/api`);
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+}
@@ -0,0 +1,59 @@
+// Runs the server with --record against a local stub API and checks what ends up in the fixtures
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {callTool, withServer, withStubApi} from "./helpers.mjs";
+
+const chart = {
+    id: 1,
+    description: "Revenue",
+    accessToken: "access-1",
+    refreshToken: "refresh-1",
+    apiToken: "api-token-1",
+    sessionToken: "session-1",
+    clientSecret: "client-secret-1",
+    "x-api-key": "key-1",
+    API_KEY: "key-2",
+    password: "password-1",
+    credentials: {user: "analyst"},
+    passRate: 0.92,
+    tokenCount: 3,
+    compass: "north",
+    bypass: false
+};
+
+test("redacts secret fields, and only those, in recorded fixtures", async () => {
+    const recordDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-api-mcp-record-"));
+    try {
+        await withStubApi({"POST /api/tokens": {token: "live-token"}, "GET /api/charts/1": chart}, async apiUrl => {
+            await withServer(["--api-url", apiUrl, "--record", recordDir], async client => {
+                assert.equal((await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"})).isError, false);
+                assert.equal((await callTool(client, "get-chart", {id: 1})).isError, false);
+            });
+        });
+
+        const read = prefix => {
+            const file = fs.readdirSync(recordDir).find(name => name.startsWith(prefix));
+            assert.ok(file, `no fixture starting with ${prefix}`);
+            return JSON.parse(fs.readFileSync(path.join(recordDir, file), "utf-8"));
+        };
+
+        assert.equal(read("post-tokens-").response.json.token, "[REDACTED]");
+
+        const recorded = read("get-charts-1-").response.json;
+        for (const field of ["accessToken", "refreshToken", "apiToken", "sessionToken", "clientSecret", "x-api-key", "API_KEY", "password", "credentials"]) {
+            assert.equal(recorded[field], "[REDACTED]", field);
+        }
+        for (const field of ["id", "description", "passRate", "tokenCount", "compass", "bypass"]) {
+            assert.deepEqual(recorded[field], chart[field], field);
+        }
+
+        for (const file of fs.readdirSync(recordDir)) {
+            assert.doesNotMatch(fs.readFileSync(path.join(recordDir, file), "utf-8"), /live-token|s3cret|access-1|client-secret-1/, file);
+        }
+    } finally {
+        fs.rmSync(recordDir, {recursive: true, force: true});
+    }
+});
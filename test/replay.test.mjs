@@ -0,0 +1,77 @@
+// Runs the server against the recorded fixtures in test/fixtures (made with --record), so no PI server is needed
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import {callTool, fixturesDir, withReplayServer} from "./helpers.mjs";
+
+test("authenticates with credentials through the recorded /tokens call", async () => {
+    await withReplayServer(async client => {
+        const result = await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"});
+        assert.equal(result.isError, false);
+        assert.match(result.text, /Authentication successful/);
+    });
+});
+
+test("recorded fixtures contain no tokens or passwords", () => {
+    for (const file of fs.readdirSync(fixturesDir)) {
+        const text = fs.readFileSync(path.join(fixturesDir, file), "utf-8");
+        assert.doesNotMatch(text, /live-token|s3cret/, file);
+    }
+
+    const tokenFixture = fs.readdirSync(fixturesDir).find(file => /^post-tokens-[0-9a-f]+-1\.json$/.test(file));
+    const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, tokenFixture), "utf-8"));
+    assert.equal(fixture.response.json.token, "[REDACTED]");
+});
+
+test("lists charts with field projection and table output", async () => {
+    await withReplayServer(async client => {
+        await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"});
+        const result = await callTool(client, "list-charts", {fields: ["id", "description", "passRate"], format: "table"});
+
+        assert.equal(result.isError, false);
+        assert.match(result.text, /\| id \| description \| passRate \|/);
+        assert.match(result.text, /\| 101 \| Revenue by Region \| 0.92 \|/);
+        assert.match(result.text, /\| 201 \| Open Claims \| 0.75 \|/);
+    });
+});
+
+test("replays repeated requests in the order they were recorded", async () => {
+    await withReplayServer(async client => {
+        await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"});
+
+        const before = await callTool(client, "get-chart", {id: 101, fields: ["description"], format: "compact"});
+        const update = await callTool(client, "update-chart", {id: 101, description: "Revenue by Sales Region"});
+        const after = await callTool(client, "get-chart", {id: 101, fields: ["description"], format: "compact"});
+
+        assert.match(before.text, /"description":"Revenue by Region"/);
+        assert.equal(update.isError, false);
+        assert.match(after.text, /"description":"Revenue by Sales Region"/);
+    });
+});
+
+test("aggregates a recorded CSV export", async () => {
+    await withReplayServer(async client => {
+        await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"});
+        const result = await callTool(client, "aggregate-chart-data", {
+            id: 101,
+            source: "csv",
+            groupBy: ["region"],
+            metrics: [{op: "sum", field: "revenue"}],
+            sortBy: "sum_revenue"
+        });
+
+        assert.equal(result.isError, false);
+        assert.match(result.text, /\| North \| 1510.5 \|\n\| East \| 905 \|\n\| South \| 640 \|/);
+    });
+});
+
+test("reports requests that were never recorded", async () => {
+    await withReplayServer(async client => {
+        await callTool(client, "authenticate-with-credentials", {credentials: "analyst s3cret"});
+        const result = await callTool(client, "get-chart", {id: 999});
+
+        assert.equal(result.isError, true);
+        assert.match(result.text, /404: No recorded response for GET \/charts\/999/);
+    });
+});